@@ -1,24 +1,221 @@
-import type { InterceptorOption } from '../utils/use-advice';
+import { isFunction } from 'radash';
+import type { PointcutExpression } from '../utils/pointcut';
+import type {
+  Aspect,
+  InterceptorOption,
+  JoinPoint,
+  ProceedingJoinPoint,
+} from '../utils/use-advice';
 import type { Constructable } from '../utils/util.schema';
-import { useAdvice } from '../utils/use-advice';
+import { isDecoratorContext } from '../utils/decorator';
+import { getRawClass, wrapInstances } from '../utils/provide';
+import { copyMarkers } from '../utils/pointcut';
+import { adviseWith, createAspects, runAspects } from '../utils/use-advice';
 
 /**
- * @description AOP拦截建议修饰器, 将类在运行时实例化的时候转化为AOP执行建议拦截代理对象, 用于实现在不修改源代码的情况下给程序动态统一添加额外功能, 应用主要体现在事务处理、日志管理、权限控制、异常处理等方面
- * @attention 为了兼容拦截的异步情况, 被拦截的方法会强行返回Promise实例
+ * 原始类到Advice声明的切面的映射，用于合并叠加使用的Advice
+ */
+const classAspectMap: WeakMap<Constructable<any>, Aspect<any>[]> = new WeakMap();
+
+/**
+ * @description AOP拦截建议修饰器, 将类在运行时实例化的时候转化为AOP执行建议拦截代理对象, 用于实现在不修改源代码的情况下给程序动态统一添加额外功能, 应用主要体现在事务处理、日志管理、权限控制、异常处理等方面;
+ * 可传入多个切面, 按order像洋葱一样由外向内嵌套, before按升序执行, after按降序执行, around通过proceed进入内层切面; 叠加使用的Advice会合并为同一个代理, order相同时写在上方的切面在外层;
+ * 与Service一起使用时无论书写顺序, 通过Provide、Inject或new得到的都是同一个被拦截的单例
+ * @attention 目标方法与通知方法都是同步时拦截同步执行, 被拦截的方法保持原有的返回值; 任意一步返回Promise时被拦截的方法返回Promise实例; 未匹配切入点的方法不做拦截;
+ * 目标方法的异常在throwing执行后默认重新抛出, before返回false时抛出AdviceRejectedError
+ * @example
+ * @Advice([
+ *   { order: 1, ...logAspect },
+ *   { order: 2, ...authAspect },
+ *   { order: 3, pointcut: pointcut('save*').or('delete*'), ...transactionAspect },
+ * ])
+ * @Service
+ * class OrderService {}
  */
 export function Advice(
-  interceptorOption: InterceptorOption<any>, // 建议拦截器选项
-  targetFunctions?: ((...args: unknown[]) => unknown)[], // 建议拦截的方法清单, 默认全部拦截(除Object实例的方法)
+  interceptorOption: InterceptorOption<any> | InterceptorOption<any>[], // 建议拦截器选项, 可传入多个切面
+  targetFunctions?: PointcutExpression | ((...args: unknown[]) => unknown)[], // 建议拦截的切入点表达式或方法清单, 默认全部拦截(除Object实例的方法)
 ) {
   return function (staticClass: Constructable<any>) {
-    return new Proxy(staticClass, {
+    const rawClass = getRawClass(staticClass);
+    classAspectMap.set(rawClass, [
+      ...createAspects(interceptorOption, targetFunctions),
+      ...(classAspectMap.get(rawClass) || []),
+    ]);
+    const advise = (instance: any) => adviseWith(instance, classAspectMap.get(rawClass)!);
+    // 单例代理类或已被Advice修饰的类，实例化时由容器按合并后的切面包装实例
+    if (rawClass !== staticClass) {
+      wrapInstances(rawClass, advise);
+      return staticClass;
+    }
+    const advisedClass = new Proxy(rawClass, {
       construct(target, argArray, newTarget) {
-        return useAdvice(
-          Reflect.construct(target, argArray, newTarget),
-          interceptorOption,
-          targetFunctions,
-        );
+        return advise(Reflect.construct(target, argArray, newTarget));
       },
     });
+    // 容器解析被修饰的类时视为原始类，同样包装创建的实例
+    wrapInstances(rawClass, advise, advisedClass);
+    return advisedClass;
+  };
+}
+
+/**
+ * 方法通知装饰器，同时支持旧版装饰器与标准装饰器
+ */
+export interface MethodAdviceDecorator {
+  (target: object, name: string | symbol, descriptor: PropertyDescriptor): void;
+  <M extends (...args: any[]) => any>(value: M, context: ClassMethodDecoratorContext): M;
+}
+
+/**
+ * 创建连接点
+ * @param methodName 方法名称
+ * @param target 方法所属的实例
+ * @param args 调用参数
+ * @param metadata 通知装饰器声明的元数据
+ */
+function toJoinPoint(
+  methodName: string,
+  target: any,
+  args: unknown[] = [],
+  metadata: Dict<any> = {},
+): JoinPoint {
+  return { methodName, args, target, metadata };
+}
+
+/**
+ * 创建方法通知装饰器
+ * @description 将被修饰的方法替换为按拦截器选项执行的方法，并保留方法上的标记
+ * @param decoratorName 装饰器名称，用于错误信息
+ * @param interceptorOption 拦截器选项
+ * @returns 方法通知装饰器
+ */
+function createMethodAdvice(
+  decoratorName: string,
+  interceptorOption: InterceptorOption<any>,
+): MethodAdviceDecorator {
+  const aspects = createAspects(interceptorOption);
+  const advise = (method: (...args: unknown[]) => unknown, methodName: string) => {
+    if (!isFunction(method)) {
+      throw new Error(`@${decoratorName} can only decorate methods.`);
+    }
+    const advised = function (this: any, ...args: unknown[]) {
+      return runAspects(aspects, methodName, this, this, method, args);
+    };
+    copyMarkers(method, advised);
+    return advised;
   };
+  return function (value: any, context: any, descriptor?: PropertyDescriptor) {
+    if (isDecoratorContext(context)) {
+      return advise(value, String(context.name));
+    }
+    descriptor!.value = advise(descriptor!.value, String(context));
+  } as MethodAdviceDecorator;
+}
+
+/**
+ * @description 前置通知方法装饰器, 在被修饰的方法调用之前执行通知方法, 通知方法返回false时目标方法不会执行并抛出AdviceRejectedError
+ * @attention 通知方法返回Promise时被修饰的方法返回Promise实例; 同一方法上的多个通知装饰器, 写在上方的在外层
+ * @example
+ * class OrderService {
+ *   @Before((joinPoint) => hasPermission(joinPoint.metadata.permission), { permission: 'order:write' })
+ *   saveOrder(order: Order) {}
+ * }
+ */
+export function Before(
+  advice: (joinPoint: JoinPoint) => boolean | void | Promise<boolean | void>, // 通知方法
+  metadata?: Dict<any>, // 连接点的元数据
+): MethodAdviceDecorator {
+  return createMethodAdvice('Before', {
+    before: (methodName, target, args) => {
+      const allowed = advice(toJoinPoint(methodName, target, args, metadata));
+      return allowed instanceof Promise
+        ? allowed.then((value) => value !== false)
+        : allowed !== false;
+    },
+  });
+}
+
+/**
+ * @description 返回后通知方法装饰器, 在被修饰的方法正常返回之后执行通知方法
+ * @attention 通知方法返回Promise时被修饰的方法返回Promise实例; 同一方法上的多个通知装饰器, 写在上方的在外层
+ * @example
+ * class OrderService {
+ *   @AfterReturning((joinPoint, result) => console.log(joinPoint.methodName, result))
+ *   saveOrder(order: Order) {}
+ * }
+ */
+export function AfterReturning(
+  advice: (joinPoint: JoinPoint, result: unknown) => void | Promise<void>, // 通知方法
+  metadata?: Dict<any>, // 连接点的元数据
+): MethodAdviceDecorator {
+  return createMethodAdvice('AfterReturning', {
+    after: (methodName, target, result, args) =>
+      advice(toJoinPoint(methodName, target, args, metadata), result),
+  });
+}
+
+/**
+ * @description 异常通知方法装饰器, 在被修饰的方法抛出异常之后执行通知方法; 通知方法返回undefined时重新抛出原异常, 返回Error实例时抛出该异常代替原异常, 返回其他值时作为方法的返回结果
+ * @attention 通知方法返回Promise时被修饰的方法返回Promise实例; 同一方法上的多个通知装饰器, 写在上方的在外层
+ * @example
+ * class OrderService {
+ *   @AfterThrowing((joinPoint, err) => new OrderError(`${joinPoint.methodName} failed`, { cause: err }))
+ *   saveOrder(order: Order) {}
+ *
+ *   @AfterThrowing(() => [])
+ *   listOrders() {}
+ * }
+ */
+export function AfterThrowing(
+  advice: (joinPoint: JoinPoint, err: Error) => unknown, // 通知方法
+  metadata?: Dict<any>, // 连接点的元数据
+): MethodAdviceDecorator {
+  return createMethodAdvice('AfterThrowing', {
+    throwing: (methodName, target, err, args) =>
+      advice(toJoinPoint(methodName, target, args, metadata), err as Error),
+  });
+}
+
+/**
+ * @description 最终通知方法装饰器, 在被修饰的方法正常返回或抛出异常之后执行通知方法, 不改变方法的返回结果与异常
+ * @attention 通知方法返回Promise时被修饰的方法返回Promise实例; 同一方法上的多个通知装饰器, 写在上方的在外层,
+ * 因此写在After上方的Before拒绝调用时不会执行通知方法, 写在After下方的Before拒绝调用时仍会执行
+ * @example
+ * class OrderService {
+ *   @After(() => loading.hide())
+ *   saveOrder(order: Order) {}
+ * }
+ */
+export function After(
+  advice: (joinPoint: JoinPoint) => void | Promise<void>, // 通知方法
+  metadata?: Dict<any>, // 连接点的元数据
+): MethodAdviceDecorator {
+  return createMethodAdvice('After', {
+    finally: (methodName, target, args) => advice(toJoinPoint(methodName, target, args, metadata)),
+  });
+}
+
+/**
+ * @description 环绕通知方法装饰器, 通知方法调用连接点的proceed执行被修饰的方法, 必须返回执行后的返回结果
+ * @attention 通知方法返回Promise时被修饰的方法返回Promise实例; 同一方法上的多个通知装饰器, 写在上方的在外层
+ * @example
+ * class ReportService {
+ *   @Around((joinPoint) => {
+ *     const start = Date.now();
+ *     const result = joinPoint.proceed();
+ *     console.log(joinPoint.methodName, Date.now() - start);
+ *     return result;
+ *   })
+ *   buildReport(month: string) {}
+ * }
+ */
+export function Around(
+  advice: (joinPoint: ProceedingJoinPoint) => unknown, // 通知方法
+  metadata?: Dict<any>, // 连接点的元数据
+): MethodAdviceDecorator {
+  return createMethodAdvice('Around', {
+    around: (methodName, target, args, proceed) =>
+      advice({ ...toJoinPoint(methodName, target, args, metadata), proceed: proceed! }),
+  });
 }
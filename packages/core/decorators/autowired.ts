@@ -3,62 +3,114 @@
  * 提供自动依赖注入功能
  */
 import { isString } from 'radash';
-import type { Description, IProviderConfigure, Constructable } from '../utils/util.schema';
-import { memberIdentificationContainer } from '../utils/provide';
+import type { Description, IInjectOptions, Constructable } from '../utils/util.schema';
+import { ServiceLifetimeKeys } from '../utils/util.schema';
+import {
+  Provide,
+  getLifetime,
+  getQualified,
+  getTargetContainer,
+  recordDependency,
+} from '../utils/provide';
+import {
+  type MemberDecoratorContext,
+  addMetadataDependency,
+  defineMember,
+  isDecoratorContext,
+} from '../utils/decorator';
 
 /**
  * 定义目标对象的属性，实现自动依赖注入
- * @param obj 目标对象
- * @param prop 属性名称
+ * @param obj 目标对象，标准装饰器为undefined或accessor字段的原始访问器
+ * @param prop 属性名称，标准装饰器为成员上下文
  * @param description 属性描述符，可选
+ * @param options 注入选项，可选，指定从哪个容器出发解析服务、限定名以及是否延迟、可选注入
+ * @returns 标准装饰器修饰accessor字段时返回新的访问器
  */
-function defineTarget(obj: any, prop: string, description?: Description): void {
-  // 获取成员标识容器中的所有键
-  const insArr = memberIdentificationContainer.keys();
-  let ins,
-    iteratorRes = insArr.next();
-  
-  // 遍历查找匹配的服务名称
-  while (!iteratorRes.done) {
-    if (iteratorRes.value === prop) {
-      // 创建对应的服务实例
-      ins = new (memberIdentificationContainer.get(iteratorRes.value) as Constructable<any>)();
-      break;
-    } else {
-      iteratorRes = insArr.next();
+function defineTarget(
+  obj: any,
+  prop: string | MemberDecoratorContext,
+  description?: Description,
+  options: IInjectOptions = {},
+): any {
+  let memberClass: Constructable<any> | undefined;
+  const context = isDecoratorContext(prop) ? prop : void 0;
+  // 未指定限定名时按属性名称查找
+  const qualifier = options.qualifier || String(context ? context.name : prop);
+
+  /**
+   * 按限定名查找服务类并记录依赖
+   * @param host 宿主类，标准装饰器在类定义时无法获取宿主类，此时通过装饰器元数据记录依赖
+   */
+  function findMember(host?: Constructable<any>): void {
+    memberClass = getQualified(qualifier, void 0, options.optional);
+    if (memberClass) {
+      const dependency = memberClass;
+      if (host) {
+        recordDependency(host, dependency);
+      } else if (context) {
+        addMetadataDependency(context, dependency, (ins) =>
+          recordDependency(ins.constructor, dependency),
+        );
+      }
+    } else if (!options.optional) {
+      // 未找到对应的服务时抛出错误
+      throw new Error(
+        `${qualifier} has not been declared, please confirm member property name or qualifier(${qualifier}) is correct, if it is, please
+                use "Service" decorator to declare ${qualifier}`,
+      );
     }
   }
-  
-  if (ins) {
-    // 定义只读的getter属性
-    const option = {
-      configurable: false,
-      enumerable: false,
-      get() {
-        return ins;
-      },
-    };
-    
-    // 为对象和描述符定义属性
-    Object.defineProperty(obj, prop, option);
-    description && Object.defineProperty(description, 'initializer', option);
-  } else {
-    // 未找到对应的服务时抛出错误
-    throw new Error(
-      `${prop} has not been declared, please confirm member property name(${prop}) is correct, if it is, please
-                use "Service" decorator to declare ${prop}`,
-    );
+
+  // 非延迟注入时立即解析
+  if (!options.lazy) {
+    findMember(context ? void 0 : obj.constructor);
+  }
+  // 宿主实例到非单例注入实例的映射
+  const instances: WeakMap<object, any> = new WeakMap();
+
+  // 定义只读的getter属性，每次访问都通过Provide解析，因此register注册的提供者、测试中的覆盖与应用容器均会生效
+  const option = {
+    configurable: false,
+    enumerable: false,
+    get(this: any) {
+      // 延迟注入在首次访问时解析，可选注入在服务注册之前每次访问都会重新查找
+      if ((options.lazy || options.optional) && !memberClass) {
+        findMember(this.constructor);
+      }
+      if (!memberClass) {
+        return void 0;
+      }
+      const lifetime = getLifetime(memberClass, getTargetContainer(options), options.lifetime);
+      if (lifetime === ServiceLifetimeKeys.Singleton) {
+        return Provide(memberClass, options);
+      }
+      // 非单例服务每个宿主实例各自持有一个实例
+      let ins = instances.get(this);
+      if (!ins) {
+        ins = Provide(memberClass, options);
+        instances.set(this, ins);
+      }
+      return ins;
+    },
+  };
+
+  if (context) {
+    return defineMember(context, option);
   }
+  // 为对象和描述符定义属性
+  Object.defineProperty(obj, prop as string, option);
+  description && Object.defineProperty(description, 'initializer', option);
 }
 
 /**
  * IoC自动依赖注入装饰器
- * @description 自动从IoC容器中获取并注入已注册的服务实例
- * @param target 目标类或配置对象
+ * @description 自动从IoC容器中获取并注入已注册的服务实例，同时支持旧版装饰器与标准装饰器(字段及accessor字段)
+ * @param target 目标类、限定名或注入选项，选项中qualifier指定要注入的服务名称，lazy为true时延迟到首次访问时解析，optional为true时找不到服务返回undefined而不抛出错误
  * @param name 属性名称
  * @param description 属性描述符
  * @returns 装饰器函数或直接执行注入
- * @attention 被修饰的成员属性名称必须与使用@Service注册的服务名称一致
+ * @attention 未指定限定名时，被修饰的成员属性名称必须与使用@Service注册的服务名称一致
  * @example
  * // 基本用法
  * class UserController {
@@ -69,22 +121,39 @@ function defineTarget(obj: any, prop: string, description?: Description): void {
  *     return this.userService.getUserInfo();
  *   }
  * }
+ *
+ * // 延迟与可选注入
+ * class OrderController {
+ *   @Autowired({ lazy: true, optional: true })
+ *   orderService?: OrderService;
+ * }
+ *
+ * // 按限定名注入，属性名称可以与服务名称不同
+ * class CacheController {
+ *   @Autowired('redisCache')
+ *   cache: BaseCache;
+ * }
  */
 export function Autowired(
-  target: any | IProviderConfigure,
-  name?: string,
+  target: any | string | IInjectOptions,
+  name?: string | MemberDecoratorContext,
   description?: Description,
 ): any {
   // 判断是否使用了配置参数形式
-  const hasArg = !name || !isString(name);
+  const hasArg = !name || !(isString(name) || isDecoratorContext(name));
   
   if (hasArg) {
     // 返回装饰器函数，用于属性装饰器形式
-    return function (obj: any, prop: string, description?: Description) {
-      defineTarget(obj, prop, description);
+    return function (obj: any, prop: string | MemberDecoratorContext, description?: Description) {
+      return defineTarget(
+        obj,
+        prop,
+        description,
+        isString(target) ? { qualifier: target } : (target as IInjectOptions),
+      );
     };
   } else {
     // 直接执行注入，用于参数形式
-    defineTarget(target, name, description);
+    return defineTarget(target, name, description);
   }
 }
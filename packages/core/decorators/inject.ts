@@ -1,29 +1,151 @@
 import {
-  type Constructable,
   type Description,
+  type IInjectOptions,
   type IProviderConfigure,
+  type InjectDecorator,
+  type ProviderToken,
   ProvideScopeKeys,
+  ServiceLifetimeKeys,
 } from '../utils/util.schema';
-import { Provide } from '../utils/provide';
+import {
+  getLifetime,
+  getMemberContainer,
+  getQualified,
+  isProvided,
+  recordDependency,
+  resolve,
+  resolveAll,
+} from '../utils/provide';
+import {
+  type MemberDecoratorContext,
+  addMetadataDependency,
+  defineMember,
+  isDecoratorContext,
+} from '../utils/decorator';
 
 /**
- * @description 类成员属性修饰器, 当当前所在类实例化之后将参数类在IoC容器对应的实例注入到实例成员属性中
+ * 将注入属性的描述符应用到被修饰的成员上，并在依赖关系图中记录依赖
+ * @param target 旧版装饰器为被修饰属性所在的原型，标准装饰器为undefined或accessor字段的原始访问器
+ * @param propertyName 旧版装饰器为属性名称，标准装饰器为成员上下文
+ * @param description 旧版装饰器的属性描述符，可选
+ * @param dependency 依赖的服务类或注入令牌
+ * @param option 注入属性的描述符
+ * @returns 标准装饰器修饰accessor字段时返回新的访问器
+ */
+function applyInjection(
+  target: any,
+  propertyName: string | MemberDecoratorContext,
+  description: Description | undefined,
+  dependency: ProviderToken<any>,
+  option: PropertyDescriptor,
+): any {
+  if (isDecoratorContext(propertyName)) {
+    addMetadataDependency(propertyName, dependency, (ins) =>
+      recordDependency(ins.constructor, dependency),
+    );
+    return defineMember(propertyName, option);
+  }
+  recordDependency(target.constructor, dependency);
+  Object.defineProperty(target, propertyName, option);
+  description && Object.defineProperty(description, 'initializer', option);
+}
+
+/**
+ * @description 类成员属性修饰器, 当当前所在类实例化之后将参数类在IoC容器对应的实例注入到实例成员属性中, 同时支持旧版装饰器与标准装饰器(字段及accessor字段)
+ * @attention 非singleton生命周期的服务会在每个宿主实例上缓存各自的注入实例; 由模块容器创建的宿主实例在未指定容器、命名空间或作用域时从所在的模块容器解析
+ * @param staticClass 要注入的服务类或注入令牌, 令牌类型会在编译期与被修饰的公开属性类型进行校验
+ * @param config 注入选项, Inject始终在访问属性时才解析服务(即lazy), optional为true时服务未注册则得到undefined,
+ * qualifier指定以该名称注册的实现, 用于同一基类存在多个命名实现的场景
+ * @example
+ * class CacheController {
+ *   @Inject(BaseCache, { qualifier: 'memoryCache' })
+ *   cache: BaseCache;
+ * }
  */
 export function Inject<T>(
-  staticClass: Constructable<T>,
-  config: IProviderConfigure = {
+  staticClass: ProviderToken<T>,
+  config: IInjectOptions = {
     provideScope: ProvideScopeKeys.Root as 'root',
   },
-): (target: any, propertyName: string, description?: Description) => void {
-  return (target: any, propertyName: string, description?: Description) => {
+): InjectDecorator<T> {
+  return (
+    target: any,
+    propertyName: string | MemberDecoratorContext,
+    description?: Description,
+  ) => {
+    const { qualifier } = config;
+    // 宿主实例到非单例注入实例的映射
+    const instances: WeakMap<object, T> = new WeakMap();
     const option = {
       configurable: false,
       enumerable: false,
-      get() {
-        return Provide(staticClass, config);
+      get(this: object) {
+        const targetContainer = getMemberContainer(this, config);
+        // 指定了限定名时注入以该名称注册的实现
+        const token = qualifier
+          ? getQualified(qualifier, staticClass, config.optional)
+          : staticClass;
+        if (!token) {
+          if (config.optional) {
+            return void 0;
+          }
+          throw new Error(
+            `${qualifier} has not been declared, please use "Service" decorator to declare ${qualifier}`,
+          );
+        }
+        if (config.optional && !isProvided(token, targetContainer)) {
+          return void 0;
+        }
+        const lifetime = getLifetime(token, targetContainer, config.lifetime);
+        if (lifetime === ServiceLifetimeKeys.Singleton) {
+          return resolve(token, targetContainer, [], config.lifetime);
+        }
+        let ins = instances.get(this);
+        if (!ins) {
+          ins = resolve(token, targetContainer, [], config.lifetime);
+          instances.set(this, ins);
+        }
+        return ins;
       },
     };
-    Object.defineProperty(target, propertyName, option);
-    description && Object.defineProperty(description, 'initializer', option);
+    return applyInjection(
+      target,
+      propertyName,
+      description,
+      (qualifier && getQualified(qualifier, staticClass, true)) || staticClass,
+      option,
+    );
   };
 }
+
+/**
+ * @description 类成员属性修饰器, 将扩展点的全部贡献按order排序后作为数组注入到实例成员属性中
+ * @attention 每次访问属性都会重新收集贡献, 因此能够获取到之后注册的贡献
+ * @param token 扩展点的类或注入令牌, 贡献通过register的multi选项或Service的contributeTo选项注册
+ * @param config 提供者配置, 用于确定从哪个容器出发收集贡献
+ * @example
+ * const HTTP_INTERCEPTORS = new InjectionToken<HttpInterceptor>('HttpInterceptor');
+ *
+ * @Service('authInterceptor', { contributeTo: HTTP_INTERCEPTORS, order: 10 })
+ * class AuthInterceptor implements HttpInterceptor {}
+ *
+ * class ApiClient {
+ *   @InjectAll(HTTP_INTERCEPTORS)
+ *   interceptors: HttpInterceptor[];
+ * }
+ */
+export function InjectAll<T>(
+  token: ProviderToken<T>,
+  config: IProviderConfigure = {
+    provideScope: ProvideScopeKeys.Root as 'root',
+  },
+): InjectDecorator<T[]> {
+  return (target: any, propertyName: string | MemberDecoratorContext, description?: Description) =>
+    applyInjection(target, propertyName, description, token, {
+      configurable: false,
+      enumerable: false,
+      get(this: object) {
+        return resolveAll(token, getMemberContainer(this, config));
+      },
+    });
+}
@@ -0,0 +1,33 @@
+/**
+ * 模块装饰器模块
+ * 提供按功能领域分组声明服务的功能
+ */
+import type { Constructable, IModuleOptions } from '../utils/util.schema';
+import { defineModule } from '../utils/module';
+
+/**
+ * 模块装饰器
+ * @description 将一组服务声明为模块：providers中的服务只在首次解析时创建实例，不会在引入文件时注册到全局；
+ * 模块内可以解析自身声明的服务与imports中模块导出的服务，其他模块只能解析exports中的服务；
+ * 模块内创建的服务通过Inject注入时默认从所在的模块容器出发解析
+ * @param options 模块配置
+ * @returns 类装饰器
+ * @attention 模块内的服务不要使用Service装饰器，否则会在引入文件时注册到全局容器；Autowired按服务名称全局查找，模块内的服务应使用Inject或静态inject声明依赖
+ * @example
+ * @Module({
+ *   imports: [SharedModule],
+ *   providers: [OrderService, OrderApi, { provide: ORDER_CONFIG, useValue: { pageSize: 20 } }],
+ *   exports: [OrderService],
+ * })
+ * class OrdersModule {}
+ *
+ * // 延迟加载
+ * const ordersRef = await loadModule(() => import('./orders').then((m) => m.OrdersModule));
+ * ordersRef.get(OrderService);
+ */
+export function Module(options: IModuleOptions): <T extends Constructable<any>>(target: T) => T {
+  return (target) => {
+    defineModule(target, options);
+    return target;
+  };
+}
@@ -0,0 +1,53 @@
+/**
+ * 条件注册装饰器模块
+ * 提供按环境配置或自定义条件选择服务实现的功能
+ */
+import type { Constructable } from '../utils/util.schema';
+import { getRawClass } from '../utils/provide';
+import { addPredicate, addProfiles } from '../utils/profile';
+
+/**
+ * 环境配置装饰器
+ * @description 被修饰的服务只在指定的任意一个环境配置激活时可用，环境配置以!开头表示在该配置未激活时可用；
+ * 多个实现可以使用同一个服务名称注册，按名称注入时选择当前可用的实现
+ * @param profiles 环境配置
+ * @returns 类装饰器
+ * @attention 需写在Service装饰器下方，以便在Service注册之前生效；条件在解析时判断，因此activateProfiles可以晚于服务类的定义调用，
+ * 但按名称注入的Autowired需使用lazy选项，否则会在类定义时就选择实现
+ * @example
+ * @Service('paymentService')
+ * @Profile('dev')
+ * class MockPaymentService extends PaymentService {}
+ *
+ * @Service('paymentService')
+ * @Profile('!dev')
+ * class RealPaymentService extends PaymentService {}
+ *
+ * activateProfiles(['dev']);
+ */
+export function Profile(...profiles: string[]): <T extends Constructable<any>>(target: T) => T {
+  return (target) => {
+    addProfiles(getRawClass(target), profiles);
+    return target;
+  };
+}
+
+/**
+ * 条件装饰器
+ * @description 被修饰的服务只在条件函数返回true时可用，可多次使用，全部条件满足时可用
+ * @param condition 条件函数，每次选择实现时调用
+ * @returns 类装饰器
+ * @attention 需写在Service装饰器下方，以便在Service注册之前生效
+ * @example
+ * @Service('logger')
+ * @ConditionalOn(() => localStorage.getItem('debug') === 'true')
+ * class VerboseLogger extends Logger {}
+ */
+export function ConditionalOn(
+  condition: () => boolean,
+): <T extends Constructable<any>>(target: T) => T {
+  return (target) => {
+    addPredicate(getRawClass(target), condition);
+    return target;
+  };
+}
@@ -7,28 +7,62 @@ import {
   ProvideScopeKeys,
   type Constructable,
   type IProviderConfigure,
+  type IServiceOptions,
+  type ServiceLifetime,
 } from '../utils/util.schema';
-import { getNamespace, singleton, memberIdentificationContainer } from '../utils/provide';
+import {
+  declareProvider,
+  getNamespace,
+  singleton,
+  recordDependency,
+  registerName,
+} from '../utils/provide';
+import { getMetadataDependencies, isDecoratorContext } from '../utils/decorator';
 
 /**
- * 将静态类转换为单例类并立即创建实例
+ * 将静态类转换为单例类并在IoC容器中声明
+ * @description 实例延迟到首次解析时创建，因此构造函数的副作用不会早于测试覆盖、环境配置与构造依赖的注册
  * @param staticClass 要转换的静态类
  * @param namespace 命名空间，可选
+ * @param lifetime 服务生命周期，可选
+ * @param name 服务名称，可选，同时作为跨应用共享实例时的标识
  * @returns 转换后的单例类
  */
-function convertAndCreate(staticClass: Constructable<any>, namespace?: string): Constructable<any> {
+function convertAndDeclare(
+  staticClass: Constructable<any>,
+  namespace?: string,
+  lifetime?: ServiceLifetime,
+  name?: string,
+): Constructable<any> {
+  // 在默认容器体系中命名空间对应的容器中声明服务，即使在应用上下文中加载的模块也对所有应用容器可见
+  declareProvider({ provide: staticClass, lifetime }, namespace);
   // 将类转换为单例代理
   const singletonClass = singleton(staticClass, namespace);
-  // 立即创建实例并存储到IoC容器
-  new singletonClass();
+  // 如果提供了名称，则注册到成员标识容器
+  if (name) {
+    registerName(name, singletonClass);
+  }
   return singletonClass;
 }
 
+/**
+ * 将标准装饰器的成员注入记录在装饰器元数据中的依赖写入依赖关系图
+ * @param serviceClass 服务类
+ * @param context 标准装饰器的类上下文，旧版装饰器为undefined
+ */
+function recordMetadataDependencies(serviceClass: Constructable<any>, context?: unknown): void {
+  if (isDecoratorContext(context)) {
+    getMetadataDependencies(context as ClassDecoratorContext).forEach((dependency) =>
+      recordDependency(serviceClass, dependency),
+    );
+  }
+}
+
 /**
  * IoC单例Service装饰器
- * @description 用于将类转换为单例模式，并在IoC容器中注册和创建实例
+ * @description 用于将类转换为单例模式并在IoC容器中注册，实例在首次解析时创建，同时支持旧版装饰器与标准装饰器
  * @param name 服务名称字符串或直接传入类构造函数
- * @param arg 提供者配置选项，包含provideScope和namespace
+ * @param arg 服务配置选项，包含provideScope、namespace、lifetime，以及贡献到的扩展点contributeTo与排序值order
  * @returns 装饰器函数或转换后的单例类
  * @attention 若被该装饰器修饰的类同时被其他装饰器修饰，为了保证IoC功能正常，Service装饰器必须最先应用
  * @example
@@ -43,31 +77,58 @@ function convertAndCreate(staticClass: Constructable<any>, namespace?: string):
  * class MyNamedService {
  *   // 服务实现
  * }
+ *
+ * // 通过静态inject声明构造依赖
+ * @Service('userService')
+ * class UserService {
+ *   static inject = [HttpClient];
+ *   constructor(private readonly http: HttpClient) {}
+ * }
+ *
+ * // 每次解析都创建新实例
+ * @Service('formEditor', { lifetime: 'transient' })
+ * class FormEditorService {
+ *   // 服务实现
+ * }
+ *
+ * // 作为贡献追加到扩展点，通过InjectAll按order获取全部贡献
+ * @Service('authInterceptor', { contributeTo: HTTP_INTERCEPTORS, order: 10 })
+ * class AuthInterceptor {
+ *   // 服务实现
+ * }
  */
-export function Service(
-  name: string | Constructable<any>,
-  arg?: IProviderConfigure | unknown,
-): any {
+export function Service(name: string | Constructable<any>, arg?: IServiceOptions | unknown): any {
   // 直接传入类的情况
   if (isFunction(name)) {
-    return convertAndCreate(name);
+    // 标准装饰器以类上下文作为第二个参数
+    recordMetadataDependencies(name, arg);
+    return convertAndDeclare(name);
   } else {
     // 传入名称和配置的情况，返回装饰器函数
-    return function (serviceClass: Constructable<any>) {
+    return function (serviceClass: Constructable<any>, context?: ClassDecoratorContext) {
+      recordMetadataDependencies(serviceClass, context);
       // 设置默认配置
       arg = arg || {
         provideScope: ProvideScopeKeys.Root as 'root',
       };
       
-      // 转换为单例并创建实例
-      const singletonClass = convertAndCreate(
+      // 转换为单例并声明
+      const singletonClass = convertAndDeclare(
         serviceClass,
         getNamespace(arg as IProviderConfigure) as string,
+        (arg as IProviderConfigure).lifetime,
+        isString(name) ? name : void 0,
       );
-      
-      // 如果提供了名称，则注册到成员标识容器
-      if (name && isString(name)) {
-        memberIdentificationContainer.set(name, singletonClass);
+
+      // 作为贡献追加到扩展点
+      const { contributeTo, order } = arg as IServiceOptions;
+      if (contributeTo) {
+        (Array.isArray(contributeTo) ? contributeTo : [contributeTo]).forEach((token) =>
+          declareProvider(
+            { provide: token, useExisting: singletonClass, multi: true, order },
+            getNamespace(arg as IProviderConfigure) as string,
+          ),
+        );
       }
       
       return singletonClass;
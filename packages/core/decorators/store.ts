@@ -1,24 +1,23 @@
 import { isPrimitive } from 'radash';
-import { getContainer } from '../utils/provide';
-import { cacheService } from '../services/cache-service';
-import { onCreatedService } from '../utils/provide';
+import { CacheService, cacheService } from '../services/cache-service';
+import { Provide, getAppContainer, onCreatedService } from '../utils/provide';
 import { hash, isProxy, isVoid } from '../utils/utils';
+import { isDecoratorContext } from '../utils/decorator';
 
 /**
  * @description 类的属性修饰器, 使其状态会存储到CacheService中(即状态不会随着浏览器刷新而丢失, 状态生命周期与CacheService相同)
  * @attention 被该修饰器修饰的成员所在的类必须被Service修饰器修饰, 并且能够在相应命名空间的IoC容器中找到当前类的实例, 否则无法确定该成员在运行时的唯一性以至于无法持久化存储
  * @params namespace: IoC容器的命名空间, 参考Service修饰器参数
+ * @description 同时支持旧版装饰器与标准装饰器, 标准装饰器在类的首个实例初始化时注册持久化逻辑
  */
 export function Store<T>(
-  namespace: Dict<any> | string,
-  name?: string,
+  namespace: Dict<any> | string | undefined,
+  name?: string | ClassFieldDecoratorContext,
 ): void | ((target: Dict<any>, propName: string) => void) | any {
   function modifyProp(target: Dict<any>, propName: string, _namespace?: string): void {
     const staticClass = target.constructor;
-    onCreatedService((_staticClass) => {
+    onCreatedService((_staticClass, instance) => {
       if (_staticClass === staticClass) {
-        const container = getContainer(_namespace as string);
-        const instance = container.get(staticClass as any) as any;
         if (instance) {
           const identifier = hash(
             propName +
@@ -26,15 +25,17 @@ export function Store<T>(
               Object.getOwnPropertyNames(target).reduce((p, n) => p + n, '') +
               Object.getOwnPropertyNames(instance).reduce((p, n) => p + n, ''),
           );
+          const cache = getCacheService();
           let value: any = generateValue(
-            cacheService.get(identifier) ?? instance[propName],
+            cache.get(identifier) ?? instance[propName],
             identifier,
+            cache,
           );
           Object.defineProperty(instance, propName, {
             configurable: true,
             enumerable: true,
             set(val: T) {
-              value = generateValue(val, identifier);
+              value = generateValue(val, identifier, cache);
             },
             get() {
               return value;
@@ -48,29 +49,61 @@ export function Store<T>(
       }
     });
   }
-  if (name && !isPrimitive(namespace)) {
+  /**
+   * 标准装饰器无法在类定义时获取类，因此在每个类的首个实例初始化时按原型注册持久化逻辑
+   */
+  function modifyField(context: ClassFieldDecoratorContext, _namespace?: string): void {
+    const registered: WeakSet<object> = new WeakSet();
+    context.addInitializer(function (this: any) {
+      const staticClass = this.constructor;
+      if (!registered.has(staticClass)) {
+        registered.add(staticClass);
+        modifyProp(staticClass.prototype, String(context.name), _namespace);
+      }
+    });
+  }
+  if (isDecoratorContext(name)) {
+    modifyField(name);
+  } else if (name && !isPrimitive(namespace)) {
     modifyProp(namespace as Dict<any>, name);
   } else {
-    return function (target: Dict<any>, propName: string) {
-      modifyProp(target, propName, namespace as string);
+    return function (target: Dict<any> | undefined, propName: string | ClassFieldDecoratorContext) {
+      if (isDecoratorContext(propName)) {
+        modifyField(propName, namespace as string);
+      } else {
+        modifyProp(target as Dict<any>, propName, namespace as string);
+      }
     };
   }
 }
 
-function generateValue(val: any, identifier: string): void {
+/**
+ * 获取存储状态使用的缓存服务
+ * @description 在应用上下文中使用应用容器内的缓存服务实例，避免服务端渲染时不同请求共享状态
+ */
+function getCacheService(): CacheService {
+  return getAppContainer() ? Provide(CacheService) : cacheService;
+}
+
+function generateValue(val: any, identifier: string, cache: CacheService): void {
   let value: any = val;
   if (!isPrimitive(val)) {
-    value = convertProxy(void 0, val as any, identifier);
+    value = convertProxy(void 0, val as any, identifier, cache);
   }
   if (isVoid(val)) {
-    cacheService.remove(identifier);
+    cache.remove(identifier);
   } else {
-    cacheService.set(identifier, val);
+    cache.set(identifier, val);
   }
   return value;
 }
 
-function convertProxy<T extends object>(origin: any, ins: T, identifier: string): T {
+function convertProxy<T extends object>(
+  origin: any,
+  ins: T,
+  identifier: string,
+  cache: CacheService,
+): T {
   let raw: any;
   if (!origin) {
     raw = new Proxy(ins as any, {
@@ -87,11 +120,11 @@ function convertProxy<T extends object>(origin: any, ins: T, identifier: string)
   }
   function setter(target: any, name: string, val: any): boolean {
     if (!isPrimitive(val) && Object.prototype.hasOwnProperty.call(target, name)) {
-      target[name] = convertProxy(raw, val, identifier);
+      target[name] = convertProxy(raw, val, identifier, cache);
     } else {
       target[name] = val;
     }
-    cacheService.set(identifier, raw);
+    cache.set(identifier, raw);
     return true;
   }
   function getter(target: any, name: string): void {
@@ -100,7 +133,7 @@ function convertProxy<T extends object>(origin: any, ins: T, identifier: string)
       !isProxy(target[name]) &&
       Object.prototype.hasOwnProperty.call(target, name)
     ) {
-      return convertProxy(raw, target[name], identifier);
+      return convertProxy(raw, target[name], identifier, cache);
     } else {
       return target[name];
     }
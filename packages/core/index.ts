@@ -1,13 +1,97 @@
 export { CacheService, cookieStorage, cacheService } from './services/cache-service';
 export { Emitter, type Option as EmitterOption } from './utils/emitter';
-export { Provide, onCreatedService, type IService } from './utils/provide';
-export { Inject } from './decorators/inject';
+export {
+  MicroAppManager,
+  microAppManager,
+  type MicroApp,
+  type MicroAppContext,
+  type MicroAppStatus,
+} from './services/micro-app-manager';
+export {
+  Provide,
+  onCreatedService,
+  type IService,
+  Container,
+  getContainer,
+  createChildContainer,
+  createScope,
+  disposeContainer,
+  resetContainer,
+  createAppContainer,
+  runInAppContainer,
+  getAppContainer,
+  disposeAppContainer,
+  setAppContextStorage,
+  type AppContextStorage,
+  whenReady,
+  bootstrap,
+  overrideProvider,
+  withOverrides,
+  register,
+  resolveAll,
+  inject,
+  runInContext,
+  getInjectionContext,
+  lazy,
+  LazyReference,
+  CircularDependencyError,
+} from './utils/provide';
+export { Inject, InjectAll } from './decorators/inject';
+export { InjectionToken } from './utils/injection-token';
+export {
+  inspectContainers,
+  containerGraphToJSON,
+  containerGraphToDot,
+  type ContainerSnapshot,
+  type ServiceSnapshot,
+  type DependencyEdge,
+} from './utils/inspect';
 export { Service } from './decorators/service';
 export { Autowired } from './decorators/autowired';
+export { Profile, ConditionalOn } from './decorators/profile';
+export { Module } from './decorators/module';
+export { ModuleRef, getModuleRef, importModule, loadModule } from './utils/module';
+export { isDecoratorContext } from './utils/decorator';
+export { activateProfiles, getActiveProfiles } from './utils/profile';
 export * from './utils/utils';
 export { HttpClient } from './services/http-client';
-export { Advice } from './decorators/advice';
+export {
+  Advice,
+  Before,
+  AfterReturning,
+  AfterThrowing,
+  After,
+  Around,
+  type MethodAdviceDecorator,
+} from './decorators/advice';
 export { Store } from './decorators/store';
-export { useAdvice } from './utils/use-advice';
+export {
+  useAdvice,
+  AdviceRejectedError,
+  type InterceptorOption,
+  type JoinPoint,
+  type ProceedingJoinPoint,
+} from './utils/use-advice';
+export {
+  Pointcut,
+  pointcut,
+  createMarker,
+  type MarkerDecorator,
+  type PointcutExpression,
+  type PointcutPredicate,
+} from './utils/pointcut';
 export * from './utils/mobile-utils';
 export * from './utils/math';
+export {
+  type Dependency,
+  type IProviderConfigure,
+  type IInjectOptions,
+  type IModuleOptions,
+  type IServiceOptions,
+  type InjectableClass,
+  type InjectDecorator,
+  type ProviderDefinition,
+  type ProviderToken,
+  type ServiceLifetime,
+  ServiceLifetimeKeys,
+} from './utils/util.schema';
@@ -1,4 +1,5 @@
 import { CookieStorage } from './cookie.storage';
+import { MemoryStorage } from './memory.storage';
 import { Provide } from '../utils/provide';
 import { NAMESPACE } from '../utils/util.schema';
 import { Service } from '../decorators/service';
@@ -175,16 +176,18 @@ export class CacheService {
   /**
    * 初始化存储
    * @private
-   * @description 按优先级尝试初始化可用的存储
+   * @description 按优先级尝试初始化可用的存储，非浏览器环境（如服务端渲染）中使用每个实例独立的内存存储
    * @throws {Error} 当所有存储都不可用时抛出错误
    */
   private storageInit(): void {
-    if (this.isValidStorage(localStorage)) {
+    if (typeof localStorage !== 'undefined' && this.isValidStorage(localStorage)) {
       this._storage = localStorage;
-    } else if (this.isValidStorage(sessionStorage)) {
+    } else if (typeof sessionStorage !== 'undefined' && this.isValidStorage(sessionStorage)) {
       this._storage = sessionStorage;
     } else if (this.isValidStorage(cookieStorage)) {
       this.setCookieStorage();
+    } else if (typeof window === 'undefined') {
+      this._storage = new MemoryStorage();
     } else {
       throw new Error('The Storage is not support on current browser.');
     }
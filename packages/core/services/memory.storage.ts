@@ -0,0 +1,26 @@
+export class MemoryStorage implements Storage {
+  private items: Map<string, string> = new Map();
+  get length(): number {
+    return this.items.size;
+  }
+
+  public key(index: number): string | null {
+    return Array.from(this.items.keys())[index] ?? null;
+  }
+
+  public getItem(key: string): string | null {
+    return this.items.has(key) ? (this.items.get(key) as string) : null;
+  }
+
+  public setItem(key: string, value: string): void {
+    this.items.set(key, String(value));
+  }
+
+  public removeItem(key: string): void {
+    this.items.delete(key);
+  }
+
+  public clear(): void {
+    this.items.clear();
+  }
+}
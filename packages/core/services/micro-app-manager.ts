@@ -0,0 +1,253 @@
+import { isFunction } from 'radash';
+import { closeAppEmitters } from '../utils/emitter';
+import { Container, disposeContainer, getContainer } from '../utils/provide';
+
+/**
+ * 获取当前应用上下文
+ * @returns 当前应用名称，不在浏览器环境中时返回undefined
+ */
+function getMountedApp(): string | undefined {
+  return typeof window === 'undefined' ? void 0 : window.mountedApp;
+}
+
+/**
+ * 设置当前应用上下文，不在浏览器环境中时不做任何操作
+ * @param name 应用名称
+ */
+function setMountedApp(name: string | undefined): void {
+  if (typeof window !== 'undefined') {
+    window.mountedApp = name;
+  }
+}
+
+/**
+ * 微前端应用生命周期上下文接口
+ */
+export interface MicroAppContext {
+  /**
+   * 应用名称
+   */
+  name: string;
+
+  /**
+   * 应用的self作用域容器
+   */
+  container: Container;
+
+  /**
+   * 挂载时传入的属性
+   */
+  props?: any;
+}
+
+/**
+ * 微前端应用接口
+ * @description 生命周期方法可以是普通函数或异步函数，执行期间当前应用上下文（window.mountedApp）被设置为该应用
+ */
+export interface MicroApp {
+  /**
+   * 应用名称，同时作为self作用域容器的命名空间
+   */
+  name: string;
+
+  /**
+   * 首次挂载之前执行一次的初始化方法
+   */
+  bootstrap?: (context: MicroAppContext) => void | Promise<void>;
+
+  /**
+   * 挂载方法
+   */
+  mount: (context: MicroAppContext) => void | Promise<void>;
+
+  /**
+   * 卸载方法
+   */
+  unmount?: (context: MicroAppContext) => void | Promise<void>;
+}
+
+/**
+ * 微前端应用状态
+ */
+export type MicroAppStatus = 'registered' | 'bootstrapped' | 'mounted' | 'unmounted';
+
+/**
+ * 微前端应用生命周期管理类
+ * @description 注册子应用并管理其挂载与卸载：挂载时创建self作用域容器并切换当前应用上下文，
+ * 卸载时销毁self作用域容器、关闭应用上下文中创建的事件消息实例并恢复之前的应用上下文
+ * @example
+ * const manager = new MicroAppManager();
+ * manager.register({
+ *   name: 'orders',
+ *   mount: ({ container }) => render(container),
+ *   unmount: () => destroy(),
+ * });
+ * await manager.mount('orders');
+ * // Provide(OrderService, { provideScope: 'self' }) 从orders容器中解析
+ * await manager.unmount('orders');
+ */
+export class MicroAppManager {
+  /**
+   * 已注册的应用及其状态
+   */
+  private apps: Map<string, { app: MicroApp; status: MicroAppStatus }> = new Map();
+
+  /**
+   * 已挂载的应用名称，按挂载顺序排列，最后挂载的应用为当前应用
+   */
+  private mountedStack: string[] = [];
+
+  /**
+   * 当前应用名称
+   */
+  public get currentApp(): string | undefined {
+    return getMountedApp();
+  }
+
+  /**
+   * 注册应用
+   * @param app 应用定义
+   * @throws {Error} 同名应用已注册时抛出错误
+   */
+  public register(app: MicroApp): void {
+    if (this.apps.has(app.name)) {
+      throw new Error(`Micro app ${app.name} has already been registered.`);
+    }
+    this.apps.set(app.name, { app, status: 'registered' });
+  }
+
+  /**
+   * 注销应用，已挂载的应用会先被卸载
+   * @param name 应用名称
+   */
+  public async unregister(name: string): Promise<void> {
+    if (this.getStatus(name) === 'mounted') {
+      await this.unmount(name);
+    }
+    this.apps.delete(name);
+  }
+
+  /**
+   * 获取应用状态
+   * @param name 应用名称
+   * @returns 应用状态，未注册时返回undefined
+   */
+  public getStatus(name: string): MicroAppStatus | undefined {
+    return this.apps.get(name)?.status;
+  }
+
+  /**
+   * 获取已注册的全部应用名称
+   * @returns 应用名称数组，按注册顺序排列
+   */
+  public getApps(): string[] {
+    return Array.from(this.apps.keys());
+  }
+
+  /**
+   * 挂载应用
+   * @description 首次挂载时先执行bootstrap，挂载完成后该应用成为当前应用，重复挂载已挂载的应用不做任何操作
+   * @param name 应用名称
+   * @param props 传递给应用的属性，可选
+   * @throws {Error} 应用未注册时抛出错误，生命周期方法抛出的错误会在恢复应用上下文后继续抛出
+   */
+  public async mount(name: string, props?: any): Promise<void> {
+    const record = this.getRecord(name);
+    if (record.status === 'mounted') {
+      return;
+    }
+    const context: MicroAppContext = { name, container: getContainer(name), props };
+    this.activate(name);
+    try {
+      if (record.status === 'registered') {
+        isFunction(record.app.bootstrap) && (await record.app.bootstrap(context));
+        record.status = 'bootstrapped';
+      }
+      await record.app.mount(context);
+      record.status = 'mounted';
+    } catch (error) {
+      this.deactivate(name);
+      throw error;
+    }
+  }
+
+  /**
+   * 卸载应用
+   * @description 在应用上下文中执行unmount，然后销毁self作用域容器、关闭应用上下文中创建的事件消息实例并恢复之前的应用上下文；
+   * 未挂载的应用不做任何操作
+   * @param name 应用名称
+   * @throws {Error} 应用未注册时抛出错误，unmount抛出的错误会在清理完成后继续抛出
+   */
+  public async unmount(name: string): Promise<void> {
+    const record = this.getRecord(name);
+    if (record.status !== 'mounted') {
+      return;
+    }
+    const context: MicroAppContext = { name, container: getContainer(name) };
+    this.activate(name);
+    try {
+      isFunction(record.app.unmount) && (await record.app.unmount(context));
+    } finally {
+      disposeContainer(name);
+      closeAppEmitters(name);
+      record.status = 'unmounted';
+      this.deactivate(name);
+    }
+  }
+
+  /**
+   * 在指定应用的上下文中同步执行函数
+   * @param name 应用名称
+   * @param fn 要执行的函数
+   * @returns 函数的返回值
+   */
+  public runInApp<R>(name: string, fn: () => R): R {
+    const previous = getMountedApp();
+    setMountedApp(name);
+    try {
+      return fn();
+    } finally {
+      setMountedApp(previous);
+    }
+  }
+
+  /**
+   * 获取已注册的应用记录
+   * @param name 应用名称
+   * @returns 应用记录
+   * @throws {Error} 应用未注册时抛出错误
+   */
+  private getRecord(name: string): { app: MicroApp; status: MicroAppStatus } {
+    const record = this.apps.get(name);
+    if (!record) {
+      throw new Error(
+        `Micro app ${name} has not been registered, please register it by "register".`,
+      );
+    }
+    return record;
+  }
+
+  /**
+   * 将应用设置为当前应用
+   * @param name 应用名称
+   */
+  private activate(name: string): void {
+    this.mountedStack = this.mountedStack.filter((e) => e !== name).concat(name);
+    setMountedApp(name);
+  }
+
+  /**
+   * 将应用移出已挂载列表，并恢复最近挂载的其他应用为当前应用
+   * @param name 应用名称
+   */
+  private deactivate(name: string): void {
+    this.mountedStack = this.mountedStack.filter((e) => e !== name);
+    setMountedApp(this.mountedStack[this.mountedStack.length - 1]);
+  }
+}
+
+/**
+ * 微前端应用生命周期管理实例
+ * @description 全局单例，可直接使用
+ */
+export const microAppManager = new MicroAppManager();
@@ -0,0 +1,82 @@
+/**
+ * 装饰器兼容模块
+ * 同时支持TypeScript旧版装饰器（experimentalDecorators）的(target, name, descriptor)签名与TC39标准装饰器的(value, context)签名
+ */
+import { isString } from 'radash';
+import type { ProviderToken } from './util.schema';
+
+/**
+ * 在装饰器元数据中记录成员依赖的键
+ */
+const DEPENDENCIES_KEY = Symbol('dependencies');
+
+/**
+ * 标准装饰器的成员上下文类型
+ */
+export type MemberDecoratorContext =
+  | ClassFieldDecoratorContext
+  | ClassAccessorDecoratorContext
+  | ClassGetterDecoratorContext
+  | ClassMethodDecoratorContext;
+
+/**
+ * 判断装饰器参数是否为标准装饰器的上下文对象
+ * @description 旧版装饰器的第二个参数为属性名称字符串或undefined，标准装饰器的第二个参数为包含kind的上下文对象
+ * @param value 装饰器的第二个参数
+ */
+export function isDecoratorContext(value: unknown): value is DecoratorContext {
+  return typeof value === 'object' && value !== null && isString((value as any).kind);
+}
+
+/**
+ * 按标准装饰器的成员上下文定义实例属性
+ * @description 字段通过addInitializer在每个实例的字段初始化完成后改写为访问器属性，accessor字段直接返回访问器
+ * @param context 标准装饰器的成员上下文
+ * @param option 属性描述符，get与set中的this为实例
+ * @returns accessor字段返回新的访问器，其余返回undefined
+ */
+export function defineMember(
+  context: MemberDecoratorContext,
+  option: PropertyDescriptor,
+): ClassAccessorDecoratorResult<any, any> | void {
+  if (context.kind === 'accessor') {
+    return { get: option.get, set: option.set };
+  }
+  context.addInitializer(function (this: any) {
+    Object.defineProperty(this, context.name, option);
+  });
+}
+
+/**
+ * 在装饰器元数据中记录成员依赖，供Service装饰器注册类时写入依赖关系图
+ * @param context 标准装饰器的成员上下文
+ * @param token 依赖的服务类或注入令牌
+ * @param fallback 运行环境不支持装饰器元数据（Symbol.metadata）时，在每个实例初始化时调用的回调
+ */
+export function addMetadataDependency(
+  context: MemberDecoratorContext,
+  token: ProviderToken<any>,
+  fallback: (instance: any) => void,
+): void {
+  const metadata: any = context.metadata;
+  if (metadata) {
+    // 元数据对象以父类的元数据为原型，首次写入时复制父类记录的依赖
+    if (!Object.prototype.hasOwnProperty.call(metadata, DEPENDENCIES_KEY)) {
+      metadata[DEPENDENCIES_KEY] = [...(metadata[DEPENDENCIES_KEY] || [])];
+    }
+    metadata[DEPENDENCIES_KEY].push(token);
+  } else {
+    context.addInitializer(function (this: any) {
+      fallback(this);
+    });
+  }
+}
+
+/**
+ * 读取装饰器元数据中记录的成员依赖
+ * @param context 标准装饰器的类上下文
+ * @returns 依赖的服务类或注入令牌数组
+ */
+export function getMetadataDependencies(context: ClassDecoratorContext): ProviderToken<any>[] {
+  return (context.metadata as any)?.[DEPENDENCIES_KEY] || [];
+}
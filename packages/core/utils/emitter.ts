@@ -12,6 +12,47 @@ const MSG = 'message';
  */
 let channel: BroadcastChannel;
 
+/**
+ * 微前端应用名称到其上下文中创建的事件消息实例的映射
+ */
+const appEmitters: Map<string, Set<Emitter<any>>> = new Map();
+
+/**
+ * 正在创建的服务实例所属的微前端应用，存在时代替当前应用上下文决定新建的事件消息实例的归属
+ */
+let creatingOwner: { app?: string } | undefined;
+
+/**
+ * 在指定的归属下执行函数
+ * @description 容器创建服务实例时调用，实例创建的事件消息实例归属于持有该实例的容器对应的应用，
+ * 因此子应用挂载期间首次创建的根容器服务不会在子应用卸载时被关闭
+ * @param app 应用名称，不属于任何应用时为undefined
+ * @param fn 要执行的函数
+ * @returns 函数的返回值
+ */
+export function runWithEmitterOwner<R>(app: string | undefined, fn: () => R): R {
+  const previous = creatingOwner;
+  creatingOwner = { app };
+  try {
+    return fn();
+  } finally {
+    creatingOwner = previous;
+  }
+}
+
+/**
+ * 关闭指定微前端应用上下文中创建的全部事件消息实例
+ * @description 子应用卸载时调用，释放其监听器与广播通道
+ * @param appName 应用名称
+ */
+export function closeAppEmitters(appName: string): void {
+  const emitters = appEmitters.get(appName);
+  if (emitters) {
+    appEmitters.delete(appName);
+    emitters.forEach((emitter) => emitter.close());
+  }
+}
+
 /**
  * Emitter选项接口
  * @template T - 事件数据类型
@@ -50,6 +91,11 @@ export class Emitter<T> {
    * 频道名称
    */
   private channelName?: string;
+
+  /**
+   * 创建实例时所在的微前端应用名称
+   */
+  private ownerApp?: string;
   
   /**
    * 绑定的监听器处理函数
@@ -68,7 +114,7 @@ export class Emitter<T> {
     this.value = this.channelName ? cacheService.get(this.channelName) || value : value;
     
     // 初始化广播通道
-    if (!channel && this.channelName) {
+    if (!channel && this.channelName && typeof window !== 'undefined') {
       channel = window.BroadcastChannel && new window.BroadcastChannel(NAMESPACE);
     }
     
@@ -78,6 +124,18 @@ export class Emitter<T> {
       channel?.addEventListener(MSG, this.bindingListenerHandler);
     }
     
+    // 记录所属的微前端应用，应用卸载时关闭；容器创建服务实例期间归属于持有实例的容器对应的应用
+    this.ownerApp = creatingOwner
+      ? creatingOwner.app
+      : typeof window !== 'undefined'
+        ? window.mountedApp
+        : void 0;
+    if (this.ownerApp) {
+      const emitters = appEmitters.get(this.ownerApp) || new Set();
+      emitters.add(this);
+      appEmitters.set(this.ownerApp, emitters);
+    }
+
     // 设置自动更新
     if (isFunction(option?.start)) {
       option?.start(this.set.bind(this));
@@ -177,6 +235,7 @@ export class Emitter<T> {
     delete this.callbackList;
     delete this.value;
     this.channelName && channel?.removeEventListener(MSG, this.bindingListenerHandler);
+    this.ownerApp && appEmitters.get(this.ownerApp)?.delete(this);
   }
 
   private listenHandler(event: { data: { data: T; type?: string } }): void {
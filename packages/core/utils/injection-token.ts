@@ -0,0 +1,37 @@
+/**
+ * 注入令牌类
+ * @template T 令牌对应的实例类型
+ * @description 用于在IoC容器中注册和注入接口、配置对象等非类依赖，令牌的类型参数会传递到Provide的返回值与Inject修饰的属性类型上
+ * @example
+ * interface ILogger {
+ *   log(message: string): void;
+ * }
+ * const LOGGER = new InjectionToken<ILogger>('ILogger');
+ *
+ * register({ provide: LOGGER, useClass: ConsoleLogger });
+ *
+ * class UserService {
+ *   @Inject(LOGGER)
+ *   logger!: ILogger;
+ * }
+ */
+export class InjectionToken<T> {
+  /**
+   * 令牌类型占位，仅用于类型推导
+   */
+  declare readonly __type?: T;
+
+  /**
+   * 构造函数
+   * @param description 令牌描述，用于错误信息中标识令牌
+   */
+  constructor(public readonly description: string) {}
+
+  /**
+   * 令牌的字符串表示
+   * @returns 包含描述的字符串
+   */
+  public toString(): string {
+    return `InjectionToken(${this.description})`;
+  }
+}
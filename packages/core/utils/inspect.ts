@@ -0,0 +1,209 @@
+import {
+  type ProviderDefinition,
+  type ProviderToken,
+  type ServiceLifetime,
+  ServiceLifetimeKeys,
+} from './util.schema';
+import {
+  type Container,
+  getContainer,
+  getDeclaredOwner,
+  getDependencies,
+  getNamespaces,
+  getRawClass,
+  getTokenName,
+  memberIdentificationContainer,
+} from './provide';
+
+/**
+ * 根容器在快照中的命名空间名称
+ */
+const ROOT_NAMESPACE = 'root';
+
+/**
+ * 服务快照接口
+ */
+export interface ServiceSnapshot {
+  /**
+   * 服务名称，类名或注入令牌描述
+   */
+  name: string;
+
+  /**
+   * 通过Service注册的服务名称，可选
+   */
+  serviceName?: string;
+
+  /**
+   * 服务所在的命名空间，根容器为root
+   */
+  namespace: string;
+
+  /**
+   * 提供方式
+   */
+  kind: 'class' | 'value' | 'factory' | 'existing';
+
+  /**
+   * 生命周期
+   */
+  lifetime: ServiceLifetime;
+
+  /**
+   * 是否已经在容器中创建实例
+   */
+  instantiated: boolean;
+}
+
+/**
+ * 依赖边接口
+ */
+export interface DependencyEdge {
+  /**
+   * 依赖方节点标识，格式为`命名空间:服务名称`
+   */
+  from: string;
+
+  /**
+   * 被依赖方节点标识，格式为`命名空间:服务名称`
+   */
+  to: string;
+}
+
+/**
+ * IoC容器快照接口
+ */
+export interface ContainerSnapshot {
+  /**
+   * 命名空间清单，第一个为根容器
+   */
+  namespaces: string[];
+
+  /**
+   * 已注册的服务清单
+   */
+  services: ServiceSnapshot[];
+
+  /**
+   * 通过构造依赖、提供者deps、Inject与Autowired发现的依赖边
+   */
+  edges: DependencyEdge[];
+}
+
+/**
+ * 获取容器在快照中的命名空间名称
+ * @param targetContainer IoC容器
+ */
+function getNamespaceLabel(targetContainer: Container): string {
+  return targetContainer.namespace || ROOT_NAMESPACE;
+}
+
+/**
+ * 获取服务在快照中的节点标识
+ * @param token 服务类或注入令牌
+ * @param targetContainer 服务所在的容器
+ */
+function getNodeId(token: ProviderToken<any>, targetContainer: Container): string {
+  return `${getNamespaceLabel(targetContainer)}:${getTokenName(token)}`;
+}
+
+/**
+ * 获取IoC容器快照
+ * @description 列出根容器与各命名空间容器中注册的服务、生命周期、是否已创建实例，以及服务之间的依赖边；通过createChildContainer创建但未指定命名空间的容器与作用域容器不在快照中
+ * @returns 容器快照
+ * @example
+ * const { services, edges } = inspectContainers();
+ * // 在CI中校验分层边界
+ * const violations = edges.filter((e) => e.from.includes('Repository') && e.to.includes('Controller'));
+ */
+export function inspectContainers(): ContainerSnapshot {
+  const containers = [getContainer()].concat(getNamespaces().map((ns) => getContainer(ns)));
+  // Service注册名称按原始类反查
+  const serviceNames: Map<ProviderToken<any>, string> = new Map();
+  memberIdentificationContainer.forEach((serviceClass, name) =>
+    serviceNames.set(getRawClass(serviceClass), name),
+  );
+  const services: ServiceSnapshot[] = [];
+  const edges: DependencyEdge[] = [];
+  containers.forEach((targetContainer) => {
+    // 已注册的提供者以及未注册但已通过Provide隐式创建的实例
+    const providers: ProviderDefinition[] = targetContainer.getProviders();
+    targetContainer.forEach((_, token) => {
+      if (!targetContainer.isDeclared(token)) {
+        providers.push({ provide: token, lifetime: ServiceLifetimeKeys.Singleton as 'singleton' });
+      }
+    });
+    // 同一服务在一个容器中只列出一次
+    const listed: Set<ProviderToken<any>> = new Set();
+    providers.forEach((provider) => {
+      const token = getRawClass(provider.provide);
+      if (listed.has(token)) {
+        return;
+      }
+      listed.add(token);
+      services.push({
+        name: getTokenName(token),
+        serviceName: serviceNames.get(token),
+        namespace: getNamespaceLabel(targetContainer),
+        kind:
+          'useValue' in provider
+            ? 'value'
+            : provider.useFactory
+              ? 'factory'
+              : provider.useExisting
+                ? 'existing'
+                : 'class',
+        lifetime: provider.lifetime as ServiceLifetime,
+        instantiated: targetContainer.has(token),
+      });
+      getDependencies(token, targetContainer).forEach((dep) => {
+        const rawDep = getRawClass(dep);
+        edges.push({
+          from: getNodeId(token, targetContainer),
+          to: getNodeId(rawDep, getDeclaredOwner(rawDep, targetContainer) || targetContainer.root),
+        });
+      });
+    });
+  });
+  return {
+    namespaces: containers.map(getNamespaceLabel),
+    services,
+    edges,
+  };
+}
+
+/**
+ * 将IoC容器快照导出为JSON字符串
+ * @param snapshot 容器快照，默认为当前快照
+ * @returns 格式化的JSON字符串
+ */
+export function containerGraphToJSON(snapshot: ContainerSnapshot = inspectContainers()): string {
+  return JSON.stringify(snapshot, null, 2);
+}
+
+/**
+ * 将IoC容器快照导出为Graphviz DOT格式
+ * @description 每个命名空间为一个子图，节点标注生命周期，已创建实例的节点以实线表示，未创建的以虚线表示
+ * @param snapshot 容器快照，默认为当前快照
+ * @returns DOT格式字符串
+ */
+export function containerGraphToDot(snapshot: ContainerSnapshot = inspectContainers()): string {
+  const quote = (str: string) => `"${str.replace(/"/g, '\\"')}"`;
+  const lines = ['digraph IoC {', '  rankdir=LR;', '  node [shape=box];'];
+  snapshot.namespaces.forEach((namespace, index) => {
+    lines.push(`  subgraph cluster_${index} {`, `    label=${quote(namespace)};`);
+    snapshot.services
+      .filter((service) => service.namespace === namespace)
+      .forEach((service) => {
+        lines.push(
+          `    ${quote(`${namespace}:${service.name}`)} [label=${quote(
+            `${service.name}\\n${service.lifetime}`,
+          )}, style=${service.instantiated ? 'solid' : 'dashed'}];`,
+        );
+      });
+    lines.push('  }');
+  });
+  snapshot.edges.forEach((edge) => lines.push(`  ${quote(edge.from)} -> ${quote(edge.to)};`));
+  lines.push('}');
+  return lines.join('\n');
+}
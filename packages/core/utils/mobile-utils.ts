@@ -1,5 +1,8 @@
+// 非浏览器环境（如服务端渲染）中没有navigator
+const userAgent = typeof navigator === 'undefined' ? '' : navigator.userAgent;
+
 //判断是否是微信
-export const isWechatApp = /micromessenger/.test(navigator.userAgent.toLowerCase());
+export const isWechatApp = /micromessenger/.test(userAgent.toLowerCase());
 
 //判断当前网络是链接私有wifi 还是链接通信供应商的无线网络
 export const isNotWifi = () => {
@@ -19,9 +22,7 @@ export const isNotWifi = () => {
 };
 
 export const isMobileDevice =
-  /Android|webOS|iPhone|BlackBerry|IEMobile|Opera Mini|iPad|HuaweiBrowser/i.test(
-    navigator.userAgent,
-  );
+  /Android|webOS|iPhone|BlackBerry|IEMobile|Opera Mini|iPad|HuaweiBrowser/i.test(userAgent);
 
 //判断宽度,是pc还是h5
 export const isMobileDeviceWidth = () => {
@@ -33,15 +34,15 @@ export const isMobileDeviceWidth = () => {
   }
 };
 //判断是不是支付宝
-export const isAliPay = /alipay/.test(navigator.userAgent.toLowerCase());
+export const isAliPay = /alipay/.test(userAgent.toLowerCase());
 
-export const isMyStarDevice = /MyStar/i.test(navigator.userAgent);
+export const isMyStarDevice = /MyStar/i.test(userAgent);
 
 //判断是不是安卓系统
-export const isAndroid = /Android/i.test(navigator.userAgent);
+export const isAndroid = /Android/i.test(userAgent);
 //判断是不是鸿蒙系统
-export const isHarmonyOS = /HuaweiBrowser/i.test(navigator.userAgent);
+export const isHarmonyOS = /HuaweiBrowser/i.test(userAgent);
 // 是否企业微信
-export const isWeCom = /wxwork/i.test(navigator.userAgent);
+export const isWeCom = /wxwork/i.test(userAgent);
 // 判断是否IOS
-export const isIOS = /\(i[^;]+;( U;)? CPU.+Mac OS X/i.test(navigator.userAgent);
+export const isIOS = /\(i[^;]+;( U;)? CPU.+Mac OS X/i.test(userAgent);
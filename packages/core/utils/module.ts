@@ -0,0 +1,233 @@
+/**
+ * 模块系统
+ * 按功能领域分组声明服务：模块内的服务只在首次解析时创建，其他模块只能解析导入模块所导出的服务，模块可以通过动态导入延迟加载
+ */
+import { isFunction } from 'radash';
+import type { Constructable, IModuleOptions, ProviderToken } from './util.schema';
+import {
+  Container,
+  createModuleContainer,
+  disposeModuleContainer,
+  getContainer,
+  getModuleContainer,
+  getRawClass,
+  getTokenName,
+  recordModuleProvider,
+  resolve,
+  setModuleInitializer,
+} from './provide';
+
+/**
+ * 模块类到模块配置的映射
+ */
+const moduleOptionsMap: WeakMap<object, IModuleOptions> = new WeakMap();
+
+/**
+ * 根容器到其中已初始化的模块的映射，应用容器拥有各自的模块实例
+ */
+const moduleRefMap: WeakMap<Container, Map<Constructable<any>, ModuleRef>> = new WeakMap();
+
+/**
+ * 正在初始化的模块，用于检测模块之间的循环导入
+ */
+const initializingModules: Constructable<any>[] = [];
+
+/**
+ * 模块引用类
+ * @description 持有已初始化模块的容器，模块容器只能通过模块类获取，不能通过命名空间配置获取
+ */
+export class ModuleRef {
+  /**
+   * 模块类
+   */
+  public readonly moduleClass: Constructable<any>;
+
+  /**
+   * 模块容器
+   */
+  public readonly container: Container;
+
+  /**
+   * 构造函数
+   * @param moduleClass 模块类
+   * @param container 模块容器
+   */
+  constructor(moduleClass: Constructable<any>, container: Container) {
+    this.moduleClass = moduleClass;
+    this.container = container;
+  }
+
+  /**
+   * 模块名称
+   */
+  public get name(): string {
+    return this.moduleClass.name;
+  }
+
+  /**
+   * 解析模块导出的服务实例
+   * @param token 服务类或注入令牌
+   * @returns 服务实例
+   * @throws {Error} 服务未被模块导出时抛出错误
+   */
+  public get<T>(token: ProviderToken<T>): T {
+    if (!this.container.exports?.has(getRawClass(token))) {
+      throw new Error(
+        `${getTokenName(getRawClass(token))} is not exported by module ${this.name}.`,
+      );
+    }
+    return resolve(token, this.container);
+  }
+}
+
+/**
+ * 声明模块
+ * @description 供Module装饰器调用，只记录模块配置与模块声明的服务，模块在首次被获取、导入或加载时才初始化
+ * @param moduleClass 模块类
+ * @param options 模块配置
+ */
+export function defineModule(moduleClass: Constructable<any>, options: IModuleOptions): void {
+  moduleOptionsMap.set(moduleClass, options);
+  (options.providers || []).forEach((provider) =>
+    recordModuleProvider(isFunction(provider) ? provider : provider.provide, moduleClass.name),
+  );
+}
+
+/**
+ * 判断是否为通过Module装饰器声明的模块类
+ * @param target 要判断的值
+ */
+export function isModule(target: unknown): boolean {
+  return isFunction(target) && moduleOptionsMap.has(target);
+}
+
+/**
+ * 在模块容器中注册提供者、导入模块并确定导出的服务
+ * @param moduleClass 模块类
+ * @param options 模块配置
+ * @param moduleContainer 模块容器
+ * @throws {Error} 导入的不是模块或导出的服务既不是模块内声明的也不是导入模块所导出的时抛出错误
+ */
+function setupModule(
+  moduleClass: Constructable<any>,
+  options: IModuleOptions,
+  moduleContainer: Container,
+): void {
+  const exports: Set<ProviderToken<any>> = (moduleContainer.exports = new Set());
+  const imported = (options.imports || []).map((importedClass) => {
+    if (!isModule(importedClass)) {
+      throw new Error(
+        `Module ${moduleClass.name} imports ${importedClass?.name ?? importedClass}, which is not a module, please check for circular imports between files.`,
+      );
+    }
+    const ref = getModuleRef(importedClass);
+    moduleContainer.addImport(ref.container);
+    return ref;
+  });
+  (options.providers || []).forEach((provider) =>
+    moduleContainer.register(isFunction(provider) ? { provide: provider } : provider),
+  );
+  (options.exports || []).forEach((token) => {
+    const importedRef = imported.find((ref) => ref.moduleClass === token);
+    if (importedRef) {
+      // 导出导入的模块时转而导出该模块导出的全部服务
+      importedRef.container.exports?.forEach((e) => exports.add(e));
+      return;
+    }
+    const rawClass = getRawClass(token);
+    if (
+      !moduleContainer.isDeclared(rawClass) &&
+      !imported.some((ref) => ref.container.exports?.has(rawClass))
+    ) {
+      throw new Error(
+        `Module ${moduleClass.name} cannot export ${getTokenName(rawClass)}, it is neither provided by the module nor exported by its imports.`,
+      );
+    }
+    exports.add(rawClass);
+  });
+}
+
+/**
+ * 获取模块引用
+ * @description 模块在当前根容器中首次获取时初始化：创建以模块类为键的模块容器，初始化导入的模块并注册提供者，
+ * 提供者只在首次解析时创建实例；在应用上下文中获取的是该应用容器内的模块
+ * @param moduleClass 模块类
+ * @returns 模块引用
+ * @throws {Error} 不是模块类、模块之间循环导入或模块配置不正确时抛出错误
+ */
+export function getModuleRef(moduleClass: Constructable<any>): ModuleRef {
+  const options = moduleOptionsMap.get(moduleClass);
+  if (!options) {
+    throw new Error(`${moduleClass.name} is not a module, please decorate it with "Module".`);
+  }
+  const rootContainer = getContainer();
+  let refs = moduleRefMap.get(rootContainer);
+  if (!refs) {
+    moduleRefMap.set(rootContainer, (refs = new Map()));
+  }
+  const existing = refs.get(moduleClass);
+  // 模块容器随根容器重置后重新初始化
+  if (existing && getModuleContainer(rootContainer, moduleClass) === existing.container) {
+    return existing;
+  }
+  if (initializingModules.includes(moduleClass)) {
+    const path = initializingModules
+      .slice(initializingModules.indexOf(moduleClass))
+      .concat(moduleClass)
+      .map((e) => e.name);
+    throw new Error(`Circular module import: ${path.join(' -> ')}.`);
+  }
+  const moduleContainer = createModuleContainer(rootContainer, moduleClass);
+  initializingModules.push(moduleClass);
+  try {
+    setupModule(moduleClass, options, moduleContainer);
+  } catch (e) {
+    disposeModuleContainer(rootContainer, moduleClass);
+    throw e;
+  } finally {
+    initializingModules.pop();
+  }
+  const ref = new ModuleRef(moduleClass, moduleContainer);
+  refs.set(moduleClass, ref);
+  return ref;
+}
+
+// 重置根容器后重新导入的模块在当前根容器中重新初始化
+setModuleInitializer((moduleClass) => getModuleRef(moduleClass).container);
+
+/**
+ * 将模块导入到容器
+ * @description 导入后从该容器及其子容器出发可以解析模块导出的服务，Provide、Inject等默认从根容器出发解析
+ * @param moduleClass 模块类
+ * @param targetContainer 导入模块的容器，默认为当前的根容器
+ * @returns 模块引用
+ * @example
+ * importModule(OrdersModule);
+ * const orderService = Provide(OrderService);
+ */
+export function importModule(
+  moduleClass: Constructable<any>,
+  targetContainer: Container = getContainer(),
+): ModuleRef {
+  const ref = getModuleRef(moduleClass);
+  targetContainer.addImport(ref.container);
+  return ref;
+}
+
+/**
+ * 延迟加载模块
+ * @description 通过动态导入加载模块所在的代码分块，然后将模块导入到容器
+ * @param loader 加载模块类的函数
+ * @param targetContainer 导入模块的容器，默认为当前的根容器
+ * @returns 解析为模块引用的Promise
+ * @example
+ * const ordersRef = await loadModule(() => import('./orders').then((m) => m.OrdersModule));
+ * const orderService = ordersRef.get(OrderService);
+ */
+export async function loadModule(
+  loader: () => Promise<Constructable<any>>,
+  targetContainer?: Container,
+): Promise<ModuleRef> {
+  const moduleClass = await loader();
+  return importModule(moduleClass, targetContainer);
+}
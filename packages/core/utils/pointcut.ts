@@ -0,0 +1,219 @@
+/**
+ * 切入点模块
+ * 按方法名称通配符、正则表达式、判断函数或方法标记选择AOP拦截的方法，并支持and、or、not组合
+ */
+import { isFunction, isString } from 'radash';
+import { isDecoratorContext } from './decorator';
+
+/**
+ * 切入点判断函数
+ * @param methodName 方法名称
+ * @param instance 方法所属的实例
+ * @returns 方法是否被拦截
+ */
+export type PointcutPredicate = (methodName: string, instance: any) => boolean;
+
+/**
+ * 方法标记装饰器，由createMarker创建，同时支持旧版装饰器与标准装饰器
+ */
+export interface MarkerDecorator {
+  (target: object, name: string | symbol, descriptor: PropertyDescriptor): void;
+  (value: (...args: any[]) => any, context: ClassMethodDecoratorContext): void;
+  /**
+   * 标记名称，用于描述切入点
+   */
+  readonly markerName: string;
+}
+
+/**
+ * 切入点表达式
+ * @description 字符串为方法名称通配符（*匹配任意字符，?匹配单个字符），正则表达式匹配方法名称，
+ * 函数为判断函数，标记装饰器匹配被该标记修饰的方法
+ */
+export type PointcutExpression = Pointcut | string | RegExp | PointcutPredicate | MarkerDecorator;
+
+/**
+ * 标记装饰器集合，用于将标记与普通判断函数区分
+ */
+const markers: WeakSet<MarkerDecorator> = new WeakSet();
+
+/**
+ * 方法到修饰它的标记集合的映射
+ */
+const methodMarkerMap: WeakMap<object, Set<MarkerDecorator>> = new WeakMap();
+
+/**
+ * 切入点类
+ * @description 描述AOP拦截哪些方法，可通过and、or、not与其他切入点表达式组合，组合结果为新的切入点
+ * @example
+ * const writes = pointcut('save*').or('delete*');
+ * const auditedWrites = writes.and(Audited).and(pointcut(/Draft$/).not());
+ */
+export class Pointcut {
+  /**
+   * 构造函数
+   * @param predicate 判断函数
+   * @param description 切入点描述
+   */
+  constructor(
+    private readonly predicate: PointcutPredicate,
+    public readonly description: string,
+  ) {}
+
+  /**
+   * 判断方法是否匹配切入点
+   * @param methodName 方法名称
+   * @param instance 方法所属的实例
+   */
+  public matches(methodName: string, instance: any): boolean {
+    return this.predicate(methodName, instance);
+  }
+
+  /**
+   * 与另一个切入点表达式同时匹配
+   * @param expression 切入点表达式
+   * @returns 新的切入点
+   */
+  public and(expression: PointcutExpression): Pointcut {
+    const other = pointcut(expression);
+    return new Pointcut(
+      (methodName, instance) =>
+        this.matches(methodName, instance) && other.matches(methodName, instance),
+      `(${this.description} && ${other.description})`,
+    );
+  }
+
+  /**
+   * 与另一个切入点表达式任意一个匹配
+   * @param expression 切入点表达式
+   * @returns 新的切入点
+   */
+  public or(expression: PointcutExpression): Pointcut {
+    const other = pointcut(expression);
+    return new Pointcut(
+      (methodName, instance) =>
+        this.matches(methodName, instance) || other.matches(methodName, instance),
+      `(${this.description} || ${other.description})`,
+    );
+  }
+
+  /**
+   * 取反
+   * @returns 匹配当前切入点不匹配的方法的新切入点
+   */
+  public not(): Pointcut {
+    return new Pointcut(
+      (methodName, instance) => !this.matches(methodName, instance),
+      `!${this.description}`,
+    );
+  }
+
+  /**
+   * 切入点的字符串表示
+   * @returns 切入点描述
+   */
+  public toString(): string {
+    return `Pointcut(${this.description})`;
+  }
+}
+
+/**
+ * 将方法名称通配符转换为正则表达式
+ * @param pattern 通配符，*匹配任意字符，?匹配单个字符
+ */
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*')
+    .replace(/\?/g, '.');
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * 判断函数是否为标记装饰器
+ * @param value 要判断的值
+ */
+function isMarker(value: unknown): value is MarkerDecorator {
+  return isFunction(value) && markers.has(value as MarkerDecorator);
+}
+
+/**
+ * 创建切入点
+ * @description 将切入点表达式转换为可组合的切入点，传入切入点时原样返回
+ * @param expression 切入点表达式
+ * @returns 切入点
+ * @example
+ * @Advice(logInterceptor, pointcut('save*').or('delete*'))
+ * @Service
+ * class OrderService {}
+ */
+export function pointcut(expression: PointcutExpression): Pointcut {
+  if (expression instanceof Pointcut) {
+    return expression;
+  }
+  if (isString(expression)) {
+    const regExp = globToRegExp(expression);
+    return new Pointcut((methodName) => regExp.test(methodName), expression);
+  }
+  if (expression instanceof RegExp) {
+    // 去掉全局与粘连标志，避免lastIndex影响多次匹配
+    const regExp = new RegExp(expression.source, expression.flags.replace(/[gy]/g, ''));
+    return new Pointcut((methodName) => regExp.test(methodName), String(expression));
+  }
+  if (isMarker(expression)) {
+    return new Pointcut(
+      (methodName, instance) => !!methodMarkerMap.get(instance?.[methodName])?.has(expression),
+      `@${expression.markerName}`,
+    );
+  }
+  if (isFunction(expression)) {
+    return new Pointcut(expression, expression.name || 'predicate');
+  }
+  throw new Error(`${String(expression)} is not a valid pointcut expression.`);
+}
+
+/**
+ * 将方法上的标记复制到替换它的方法上
+ * @param method 原方法
+ * @param replacement 替换的方法
+ */
+export function copyMarkers(method: object, replacement: object): void {
+  const methodMarkers = methodMarkerMap.get(method);
+  if (methodMarkers) {
+    methodMarkerMap.set(replacement, new Set(methodMarkers));
+  }
+}
+
+/**
+ * 创建方法标记装饰器
+ * @description 被标记修饰的方法可以通过pointcut(marker)选择，一个方法可以同时被多个标记修饰
+ * @param markerName 标记名称，用于描述切入点
+ * @returns 方法标记装饰器
+ * @attention 标记记录在方法函数上，Before等通知装饰器会保留标记，其他会替换方法的装饰器需写在标记上方
+ * @example
+ * const Audited = createMarker('Audited');
+ *
+ * @Advice(auditInterceptor, Audited)
+ * @Service
+ * class AccountService {
+ *   @Audited
+ *   transfer(from: string, to: string, amount: number) {}
+ * }
+ */
+export function createMarker(markerName: string): MarkerDecorator {
+  const marker = function (value: any, context: any, descriptor?: PropertyDescriptor): void {
+    const method = isDecoratorContext(context) ? value : descriptor?.value;
+    if (!isFunction(method)) {
+      throw new Error(`@${markerName} can only decorate methods.`);
+    }
+    let methodMarkers = methodMarkerMap.get(method);
+    if (!methodMarkers) {
+      methodMarkers = new Set();
+      methodMarkerMap.set(method, methodMarkers);
+    }
+    methodMarkers.add(marker);
+  } as MarkerDecorator;
+  Object.defineProperty(marker, 'markerName', { value: markerName });
+  markers.add(marker);
+  return marker;
+}
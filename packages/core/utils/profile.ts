@@ -0,0 +1,129 @@
+/**
+ * 环境配置与条件注册模块
+ * 维护当前激活的环境配置（profile），并记录服务类的注册条件
+ */
+
+/**
+ * 服务类的注册条件
+ */
+interface ServiceCondition {
+  /**
+   * 要求的环境配置，任意一项匹配即满足，以!开头表示该环境配置未激活时匹配
+   */
+  profiles: string[];
+
+  /**
+   * 自定义条件函数，全部返回true时满足
+   */
+  predicates: (() => boolean)[];
+}
+
+/**
+ * 当前激活的环境配置
+ */
+let activeProfiles: string[] = [];
+
+/**
+ * 服务原始类到注册条件的映射
+ */
+const conditionMap: WeakMap<object, ServiceCondition> = new WeakMap();
+
+/**
+ * 激活环境配置
+ * @description 替换当前激活的环境配置，通过Profile声明的服务在解析时按激活的环境配置选择实现
+ * @param profiles 要激活的环境配置
+ * @example
+ * activateProfiles([import.meta.env.MODE]);
+ */
+export function activateProfiles(profiles: string[]): void {
+  activeProfiles = [...profiles];
+}
+
+/**
+ * 获取当前激活的环境配置
+ * @returns 环境配置数组
+ */
+export function getActiveProfiles(): string[] {
+  return [...activeProfiles];
+}
+
+/**
+ * 获取或创建服务类的注册条件
+ * @param rawClass 服务原始类
+ * @returns 注册条件
+ */
+function ensureCondition(rawClass: object): ServiceCondition {
+  let condition = conditionMap.get(rawClass);
+  if (!condition) {
+    condition = { profiles: [], predicates: [] };
+    conditionMap.set(rawClass, condition);
+  }
+  return condition;
+}
+
+/**
+ * 为服务类追加要求的环境配置
+ * @param rawClass 服务原始类
+ * @param profiles 环境配置
+ */
+export function addProfiles(rawClass: object, profiles: string[]): void {
+  ensureCondition(rawClass).profiles.push(...profiles);
+}
+
+/**
+ * 为服务类追加自定义条件函数
+ * @param rawClass 服务原始类
+ * @param predicate 条件函数
+ */
+export function addPredicate(rawClass: object, predicate: () => boolean): void {
+  ensureCondition(rawClass).predicates.push(predicate);
+}
+
+/**
+ * 判断服务类是否声明了注册条件
+ * @param rawClass 服务原始类或注入令牌
+ */
+export function isConditional(rawClass: object): boolean {
+  return conditionMap.has(rawClass);
+}
+
+/**
+ * 判断环境配置是否匹配
+ * @param profile 环境配置，以!开头表示取反
+ */
+function matchProfile(profile: string): boolean {
+  return profile.startsWith('!')
+    ? !activeProfiles.includes(profile.slice(1))
+    : activeProfiles.includes(profile);
+}
+
+/**
+ * 判断服务类的注册条件在当前是否满足
+ * @param rawClass 服务原始类或注入令牌
+ * @returns 未声明注册条件或条件满足时返回true
+ */
+export function isActive(rawClass: object): boolean {
+  const condition = conditionMap.get(rawClass);
+  return (
+    !condition ||
+    ((!condition.profiles.length || condition.profiles.some(matchProfile)) &&
+      condition.predicates.every((predicate) => predicate()))
+  );
+}
+
+/**
+ * 描述服务类的注册条件，用于错误信息
+ * @param rawClass 服务原始类
+ * @returns 条件描述
+ */
+export function describeCondition(rawClass: object): string {
+  const condition = conditionMap.get(rawClass);
+  const requirements: string[] = [];
+  if (condition?.profiles.length) {
+    requirements.push(`profile ${condition.profiles.join(' | ')}`);
+  }
+  if (condition?.predicates.length) {
+    requirements.push(`${condition.predicates.length} custom condition(s)`);
+  }
+  return `requires ${requirements.join(' and ')}`;
+}
@@ -1,10 +1,20 @@
 import {
   type Constructable,
+  type Dependency,
+  type IInjectOptions,
   type IProviderConfigure,
+  type InjectableClass,
+  type ProviderToken,
+  type ProviderDefinition,
+  type ServiceLifetime,
   ProvideScopeKeys,
+  ServiceLifetimeKeys,
   MICRO_FRONT_END_MAIN,
 } from './util.schema';
-import { Emitter } from './emitter';
+import { Emitter, runWithEmitterOwner } from './emitter';
+import { InjectionToken } from './injection-token';
+import { attachSharedRegistry, type ISharedRegistry } from './shared-registry';
+import { describeCondition, getActiveProfiles, isActive, isConditional } from './profile';
 import { isFunction } from 'radash';
 
 /**
@@ -46,17 +56,558 @@ export const createdEmitter: Emitter<[Constructable<any>, any]> = new Emitter<vo
  */
 export const memberIdentificationContainer: Map<string, Constructable<any>> = new Map();
 
+/**
+ * 服务名称到以该名称注册的全部服务类的映射，用于在多个条件注册的实现中选择当前可用的实现
+ */
+const namedCandidates: Map<string, Constructable<any>[]> = new Map();
+
+/**
+ * IoC容器类
+ * @description 存储类构造函数到实例的映射，支持父子层级：查找服务时会沿父容器链向上回溯，
+ * 只有在当前容器内声明过的服务才会在当前容器内实例化，其余服务共享祖先容器中的实例
+ */
+export class Container extends Map<ProviderToken<any>, any> {
+  /**
+   * 父容器
+   */
+  public readonly parent?: Container;
+
+  /**
+   * 容器所属的命名空间
+   */
+  public readonly namespace?: string;
+
+  /**
+   * 是否为作用域容器，scoped生命周期的服务在最近的作用域容器内共享实例
+   */
+  public readonly isScope: boolean;
+
+  /**
+   * 跨应用共享注册表，仅main作用域容器持有，从该容器出发解析的singleton服务会优先复用注册表中其他应用发布的实例
+   */
+  public sharedRegistry?: ISharedRegistry;
+
+  /**
+   * 模块导出的服务，仅模块容器持有，其他容器只能通过导入该模块解析其导出的服务
+   */
+  public exports?: Set<ProviderToken<any>>;
+
+  /**
+   * 当前容器导入的模块容器
+   */
+  private readonly imports: Container[] = [];
+
+  /**
+   * 由当前容器发布到共享注册表的键
+   */
+  private readonly publishedKeys: string[] = [];
+
+  /**
+   * 在当前容器内注册的提供者
+   */
+  private readonly providers: Map<ProviderToken<any>, ProviderDefinition> = new Map();
+
+  /**
+   * 在当前容器内注册的多提供者，键为扩展点，值为各个贡献对应的内部令牌及排序值
+   */
+  private readonly multiProviders: Map<
+    ProviderToken<any>,
+    { key: InjectionToken<any>; order: number }[]
+  > = new Map();
+
+  /**
+   * 由当前容器创建并持有的实例，按创建顺序排列
+   */
+  private readonly createdInstances: any[] = [];
+
+  /**
+   * 构造函数
+   * @param parent 父容器，可选，不传则为根容器
+   * @param namespace 命名空间，可选
+   * @param isScope 是否为作用域容器，默认为false
+   */
+  constructor(parent?: Container, namespace?: string, isScope: boolean = false) {
+    super();
+    this.parent = parent;
+    this.namespace = namespace;
+    this.isScope = isScope;
+  }
+
+  /**
+   * 根容器
+   */
+  public get root(): Container {
+    return this.parent ? this.parent.root : this;
+  }
+
+  /**
+   * 在当前容器内声明服务，被声明的服务解析时会在当前容器内创建独立的实例
+   * @param serviceClass 服务类构造函数（可以是单例代理类）或注入令牌
+   * @param lifetime 服务生命周期，默认为singleton
+   */
+  public declare(
+    serviceClass: ProviderToken<any>,
+    lifetime: ServiceLifetime = ServiceLifetimeKeys.Singleton as 'singleton',
+  ): void {
+    this.register({ provide: serviceClass, lifetime });
+  }
+
+  /**
+   * 在当前容器内注册提供者，重复注册时覆盖原有提供者并丢弃已创建的实例；多提供者则追加到扩展点的贡献列表中
+   * @param definition 提供者定义
+   * @throws {Error} 同时指定了多种提供方式时抛出错误
+   */
+  public register<T>(definition: ProviderDefinition<T>): void {
+    const rawClass = getRawClass(definition.provide);
+    const kinds = ['useValue', 'useFactory', 'useClass', 'useExisting'].filter(
+      (kind) => kind in definition,
+    );
+    if (kinds.length > 1) {
+      throw new Error(
+        `The provider of ${getTokenName(rawClass)} can only use one of ${kinds.join(', ')}.`,
+      );
+    }
+    if (definition.multi) {
+      // 每个贡献以内部令牌注册为普通提供者，解析时沿用普通提供者的生命周期与依赖处理
+      const { order = 0, ...contribution } = definition;
+      const key = new InjectionToken<T>(`${getTokenName(rawClass)}[multi]`);
+      const contributions = this.multiProviders.get(rawClass) || [];
+      contributions.push({ key, order });
+      this.multiProviders.set(rawClass, contributions);
+      this.register({ ...contribution, provide: key, multi: false });
+      return;
+    }
+    const isValue = 'useValue' in definition;
+    this.providers.set(rawClass, {
+      ...definition,
+      provide: rawClass,
+      useClass: definition.useClass && getRawClass(definition.useClass),
+      lifetime:
+        isValue || definition.useExisting
+          ? (ServiceLifetimeKeys.Singleton as 'singleton')
+          : definition.lifetime || (ServiceLifetimeKeys.Singleton as 'singleton'),
+    });
+    this.delete(rawClass);
+    isValue && this.set(rawClass, definition.useValue);
+    // 只有默认容器及其命名空间容器中的声明作为回退；显式创建的子容器与模块容器内的声明只在其内部可见，
+    // 应用容器体系中的声明只在该应用内可见
+    if ((this === container || namespaceContainers.has(this)) && !homeContainerMap.has(rawClass)) {
+      homeContainerMap.set(rawClass, this);
+    }
+  }
+
+  /**
+   * 判断服务是否在当前容器内声明
+   * @param serviceClass 服务类构造函数或注入令牌
+   */
+  public isDeclared(serviceClass: ProviderToken<any>): boolean {
+    return this.providers.has(getRawClass(serviceClass));
+  }
+
+  /**
+   * 获取服务在当前容器内注册的提供者
+   * @param serviceClass 服务类构造函数或注入令牌
+   * @returns 提供者定义，未注册时返回undefined
+   */
+  public getProvider(serviceClass: ProviderToken<any>): ProviderDefinition | void {
+    return this.providers.get(getRawClass(serviceClass));
+  }
+
+  /**
+   * 获取当前容器内注册的全部提供者
+   * @returns 提供者定义数组，按注册顺序排列
+   */
+  public getProviders(): ProviderDefinition[] {
+    return Array.from(this.providers.values());
+  }
+
+  /**
+   * 获取扩展点在当前容器内注册的贡献
+   * @param token 扩展点的类或注入令牌
+   * @returns 贡献对应的内部令牌及排序值，按注册顺序排列
+   */
+  public getContributions(
+    token: ProviderToken<any>,
+  ): { key: InjectionToken<any>; order: number }[] {
+    return this.multiProviders.get(getRawClass(token)) || [];
+  }
+
+  /**
+   * 获取服务在当前容器内声明的生命周期
+   * @param serviceClass 服务类构造函数或注入令牌
+   * @returns 声明的生命周期，未声明时返回undefined
+   */
+  public getLifetime(serviceClass: ProviderToken<any>): ServiceLifetime | void {
+    return this.providers.get(getRawClass(serviceClass))?.lifetime;
+  }
+
+  /**
+   * 记录由当前容器创建并持有的实例，销毁容器时会按创建的逆序调用其onDestroy方法
+   * @description 同一实例以多个令牌持有时只记录一次，保证每个实例只销毁一次
+   * @param token 实例对应的服务类或注入令牌
+   * @param instance 实例对象
+   */
+  public hold(token: ProviderToken<any>, instance: any): void {
+    this.set(token, instance);
+    !this.createdInstances.includes(instance) && this.createdInstances.push(instance);
+  }
+
+  /**
+   * 将实例发布到共享注册表，注册表中已存在该键时保留已有实例
+   * @param key 共享键
+   * @param instance 实例对象
+   * @returns 注册表中该键对应的实例
+   */
+  public publish(key: string, instance: any): any {
+    const instances = (this.sharedRegistry as ISharedRegistry).instances;
+    if (!(key in instances)) {
+      instances[key] = instance;
+      this.publishedKeys.push(key);
+    }
+    return instances[key];
+  }
+
+  /**
+   * 销毁容器
+   * @description 按创建的逆序调用当前容器所创建实例的onDestroy方法，然后清空实例、注册的提供者与模块的导入导出，并撤回发布到共享注册表的实例
+   */
+  public dispose(): void {
+    const { sharedRegistry } = this;
+    this.publishedKeys
+      .splice(0)
+      .forEach((key) => sharedRegistry && delete sharedRegistry.instances[key]);
+    const instances = this.createdInstances.splice(0);
+    for (let i = instances.length - 1; i >= 0; i--) {
+      const ins = instances[i];
+      ins && isFunction(ins.onDestroy) && ins.onDestroy(this.namespace);
+    }
+    this.providers.forEach((_, token) => {
+      this.root === container && proxyMap.delete(token as Constructable<any>);
+      homeContainerMap.get(token) === this && homeContainerMap.delete(token);
+    });
+    this.providers.clear();
+    this.multiProviders.clear();
+    this.imports.splice(0);
+    this.exports?.clear();
+    this.clear();
+  }
+
+  /**
+   * 沿父容器链查找最近的作用域容器（包括自身）
+   * @returns 找到的作用域容器，找不到时返回undefined
+   */
+  public closestScope(): Container | void {
+    let current: Container | undefined = this;
+    while (current && !current.isScope) {
+      current = current.parent;
+    }
+    return current;
+  }
+
+  /**
+   * 沿父容器链查找最近的模块容器（包括自身）
+   * @returns 找到的模块容器，找不到时返回undefined
+   */
+  public closestModule(): Container | void {
+    let current: Container | undefined = this;
+    while (current && !current.exports) {
+      current = current.parent;
+    }
+    return current;
+  }
+
+  /**
+   * 导入模块容器，之后可以从当前容器解析该模块导出的服务
+   * @param moduleContainer 模块容器
+   */
+  public addImport(moduleContainer: Container): void {
+    !this.imports.includes(moduleContainer) && this.imports.push(moduleContainer);
+  }
+
+  /**
+   * 判断当前容器是否导入了模块容器
+   * @param moduleContainer 模块容器
+   */
+  public hasImport(moduleContainer: Container): boolean {
+    return this.imports.includes(moduleContainer);
+  }
+
+  /**
+   * 沿父容器链查找最近的声明了该服务或持有该服务实例的容器，每一级容器在自身之后查找其导入的模块所导出的服务
+   * @param serviceClass 服务类构造函数或注入令牌
+   * @returns 找到的容器，找不到时返回undefined
+   */
+  public lookup(serviceClass: ProviderToken<any>): Container | void {
+    const rawClass = getRawClass(serviceClass);
+    let current: Container | undefined = this;
+    while (current) {
+      const owner = current.lookupOwn(rawClass);
+      if (owner) {
+        return owner;
+      }
+      current = current.parent;
+    }
+  }
+
+  /**
+   * 在当前容器及其导入的模块所导出的服务中查找，不沿父容器链查找
+   * @param rawClass 服务原始类或注入令牌
+   * @returns 找到的容器，找不到时返回undefined
+   */
+  private lookupOwn(rawClass: ProviderToken<any>): Container | void {
+    if (this.has(rawClass) || this.providers.has(rawClass)) {
+      return this;
+    }
+    for (const imported of this.imports) {
+      const owner = imported.exports?.has(rawClass) && imported.lookupOwn(rawClass);
+      if (owner) {
+        return owner;
+      }
+    }
+  }
+}
+
+/**
+ * 单例代理类及包装类到原始类的映射
+ */
+const rawClassMap: WeakMap<object, Constructable<any>> = new WeakMap();
+
+/**
+ * 原始类到实例包装方法的映射，容器创建的实例经包装后再存储与返回
+ */
+const instanceWrapperMap: WeakMap<object, (instance: any) => any> = new WeakMap();
+
+/**
+ * 服务类到其首次声明所在容器的映射
+ * @description 当解析链上找不到服务时回退到该容器，保证命名空间内声明的服务仍可被默认方式获取
+ */
+const homeContainerMap: WeakMap<object, Container> = new WeakMap();
+
+/**
+ * 默认容器体系中通过命名空间获取时创建的容器，其中的声明会作为服务的回退容器
+ */
+const namespaceContainers: WeakSet<Container> = new WeakSet();
+
+/**
+ * 服务类到声明它的模块名称的映射
+ * @description 用于在未导入模块时解析模块内的服务给出明确的错误
+ */
+const moduleProviderMap: WeakMap<object, string> = new WeakMap();
+
+/**
+ * 由模块容器创建的实例到创建它的容器的映射，属性注入默认从该容器出发解析
+ */
+const hostContainerMap: WeakMap<object, Container> = new WeakMap();
+
 /**
  * IoC容器
- * @description 存储类构造函数到实例的映射，默认容器
+ * @description 存储类构造函数到实例的映射，默认容器（根容器）
  */
-const container: Map<Constructable<any>, any> = new Map<Constructable<any>, any>();
+const container: Container = new Container();
 
 /**
  * IoC容器字典
- * @description 按命名空间存储的IoC容器集合
+ * @description 按命名空间存储的IoC容器集合，命名空间容器默认以根容器为父容器
+ */
+const containerDict: Record<string, Container> = {};
+
+/**
+ * 根容器到其中模块类对应的模块容器的映射
+ * @description 模块容器以模块类为键，不在命名空间字典中，因此同名的模块互不冲突，也无法通过命名空间配置绕过模块的导出限制
+ */
+const moduleContainerMap: WeakMap<Container, Map<object, Container>> = new WeakMap();
+
+/**
+ * 初始化模块并返回其模块容器的方法，由模块系统设置，用于重置后重新导入根容器导入过的模块
+ */
+let moduleInitializer: ((moduleClass: Constructable<any>) => Container) | void;
+
+/**
+ * 装饰器在默认容器体系中声明的提供者
+ * @description 键为命名空间，根容器为空字符串；重置或销毁容器后重新创建对应的容器时恢复这些声明，只有register注册的提供者会被丢弃
  */
-const containerDict: Record<string, Map<Constructable<any>, any>> = {};
+const decoratorDeclarations: Map<string, ProviderDefinition[]> = new Map();
+
+/**
+ * 应用容器到其命名空间容器字典的映射
+ */
+const appContainerDictMap: WeakMap<Container, Record<string, Container>> = new WeakMap();
+
+/**
+ * 应用上下文存储接口
+ * @description 与Node.js的AsyncLocalStorage兼容，用于在异步调用链中传递当前的应用容器
+ */
+export interface AppContextStorage {
+  /**
+   * 以指定的应用容器作为上下文执行回调
+   * @param store 应用容器
+   * @param callback 要执行的回调
+   */
+  run<R>(store: Container, callback: () => R): R;
+
+  /**
+   * 获取当前上下文中的应用容器
+   */
+  getStore(): Container | undefined;
+}
+
+/**
+ * 同步执行期间的应用容器，未设置应用上下文存储时使用
+ */
+let syncAppContainer: Container | undefined;
+
+/**
+ * 应用上下文存储，默认只在同步执行期间有效
+ */
+let appContextStorage: AppContextStorage = {
+  run(store, callback) {
+    const previous = syncAppContainer;
+    syncAppContainer = store;
+    try {
+      return callback();
+    } finally {
+      syncAppContainer = previous;
+    }
+  },
+  getStore: () => syncAppContainer,
+};
+
+/**
+ * 获取单例代理类对应的原始类
+ * @param serviceClass 服务类构造函数、单例代理类或注入令牌
+ * @returns 原始类，非代理类原样返回
+ */
+export function getRawClass<T, S extends ProviderToken<T>>(serviceClass: S): S {
+  return (rawClassMap.get(serviceClass) as S) ?? serviceClass;
+}
+
+/**
+ * 登记类装饰器返回的包装类，并为原始类创建的实例设置包装方法
+ * @description 包装类在解析时视为被包装的原始类，因此通过包装类、单例代理类或原始类解析得到的都是同一个经过包装的实例
+ * @param serviceClass 被包装的原始类或单例代理类
+ * @param wrap 实例包装方法，容器创建实例后调用，返回值作为服务实例存储
+ * @param wrapperClass 装饰器返回的包装类，可选
+ */
+export function wrapInstances<T>(
+  serviceClass: Constructable<T>,
+  wrap: (instance: T) => T,
+  wrapperClass?: Constructable<T>,
+): void {
+  const rawClass = getRawClass(serviceClass);
+  instanceWrapperMap.set(rawClass, wrap);
+  wrapperClass && rawClassMap.set(wrapperClass, rawClass);
+}
+
+/**
+ * 按原始类设置的包装方法包装实例
+ * @param implClass 创建实例的类
+ * @param instance 新建的实例
+ * @returns 包装后的实例，未设置包装方法时原样返回
+ */
+function wrapInstance<T>(implClass: ProviderToken<any>, instance: T): T {
+  const wrap = instanceWrapperMap.get(getRawClass(implClass));
+  return wrap ? wrap(instance) : instance;
+}
+
+/**
+ * 获取提供者令牌的名称，用于错误信息
+ * @param token 服务类构造函数或注入令牌
+ * @returns 令牌名称
+ */
+export function getTokenName(token: ProviderToken<any>): string {
+  return token instanceof InjectionToken ? token.toString() : token.name;
+}
+
+/**
+ * 循环依赖错误
+ * @description 解析服务时依赖链回到了正在创建的服务，chain为从首个服务到重复服务的完整解析链
+ */
+export class CircularDependencyError extends Error {
+  /**
+   * 解析链上各服务的名称
+   */
+  public readonly chain: string[];
+
+  /**
+   * 构造函数
+   * @param chain 解析链上各服务的名称
+   */
+  constructor(chain: string[]) {
+    super(
+      `Circular dependency detected: ${chain.join(' -> ')}, please use "lazy" or property injection to break the cycle.`,
+    );
+    this.name = 'CircularDependencyError';
+    this.chain = chain;
+  }
+}
+
+/**
+ * 延迟引用类
+ * @description 作为构造依赖或工厂依赖使用时，注入的是一个代理对象，首次访问其成员时才解析真实实例，用于打破合理的循环依赖
+ * @template T 引用的实例类型
+ */
+export class LazyReference<T> {
+  /**
+   * 构造函数
+   * @param token 引用的服务类或注入令牌
+   */
+  constructor(public readonly token: ProviderToken<T>) {}
+}
+
+/**
+ * 创建延迟引用
+ * @param token 引用的服务类或注入令牌
+ * @returns 延迟引用
+ * @example
+ * class OrderService {
+ *   static inject = [lazy(UserService)];
+ *   constructor(private readonly userService: UserService) {}
+ * }
+ */
+export function lazy<T>(token: ProviderToken<T>): LazyReference<T> {
+  return new LazyReference(token);
+}
+
+/**
+ * 当前正在创建的服务解析链
+ */
+const resolutionPath: ProviderToken<any>[] = [];
+
+/**
+ * 测试覆盖映射，键为被覆盖的服务类或注入令牌，值为替身
+ */
+const overrideMap: Map<ProviderToken<any>, any> = new Map();
+
+/**
+ * 实例到其初始化完成Promise的映射
+ */
+const readinessMap: WeakMap<object, Promise<void>> = new WeakMap();
+
+/**
+ * 当前的注入上下文，即inject函数发起解析的容器
+ */
+let injectionContext: Container | undefined;
+
+/**
+ * 依赖关系图
+ * @description 记录通过Inject、Autowired等属性注入方式声明的依赖，键为宿主类，值为其依赖的服务类或注入令牌集合
+ */
+const dependencyGraph: Map<ProviderToken<any>, Set<ProviderToken<any>>> = new Map();
+
+/**
+ * 记录宿主类对服务的依赖
+ * @description 供属性注入类修饰器在修饰时调用，用于等待依赖初始化完成
+ * @param host 宿主类
+ * @param dependency 依赖的服务类或注入令牌
+ */
+export function recordDependency(host: ProviderToken<any>, dependency: ProviderToken<any>): void {
+  const hostClass = getRawClass(host);
+  let deps = dependencyGraph.get(hostClass);
+  if (!deps) {
+    dependencyGraph.set(hostClass, (deps = new Set()));
+  }
+  deps.add(getRawClass(dependency));
+}
 
 /**
  * 清理实例中的未定义属性并建立懒加载getter
@@ -71,9 +622,12 @@ export function clearDirty(instance: any): void {
     ) {
       // 删除未定义的自有属性
       delete instance[key];
-      
-      // 如果在成员标识容器中有对应的类，则为原型添加懒加载getter
-      if (memberIdentificationContainer.has(key)) {
+
+      // 如果在成员标识容器中有对应的类且原型上尚未建立，则为原型添加懒加载getter
+      if (
+        memberIdentificationContainer.has(key) &&
+        !Object.prototype.hasOwnProperty.call(instance.__proto__, key)
+      ) {
         Object.defineProperty(instance.__proto__, key, {
           configurable: false,
           enumerable: false,
@@ -87,39 +641,335 @@ export function clearDirty(instance: any): void {
 }
 
 /**
- * 创建单例实例
- * @param serviceClass 服务类构造函数
- * @param namespace 命名空间，可选
- * @returns 创建的单例实例
+ * 设置应用上下文存储
+ * @description 默认的应用上下文只在runInAppContainer的同步执行期间有效，
+ * 服务端渲染时传入Node.js的AsyncLocalStorage实例，使应用上下文延续到异步调用链中
+ * @param storage 应用上下文存储
+ * @example
+ * import { AsyncLocalStorage } from 'node:async_hooks';
+ * setAppContextStorage(new AsyncLocalStorage());
+ */
+export function setAppContextStorage(storage: AppContextStorage): void {
+  appContextStorage = storage;
+}
+
+/**
+ * 创建应用容器
+ * @description 应用容器是与默认容器相互隔离的根容器，拥有独立的命名空间容器，适用于服务端渲染时为每个请求创建一个；
+ * 在默认容器体系中注册的提供者与通过Service声明的服务在应用容器中同样可用，但实例在应用容器内创建，不会在请求之间共享
+ * @returns 新建的应用容器
+ * @example
+ * const appContainer = createAppContainer();
+ * try {
+ *   return await runInAppContainer(appContainer, () => renderToString(createApp()));
+ * } finally {
+ *   disposeAppContainer(appContainer);
+ * }
+ */
+export function createAppContainer(): Container {
+  const appContainer = new Container();
+  appContainerDictMap.set(appContainer, {});
+  return appContainer;
+}
+
+/**
+ * 以指定的应用容器作为上下文执行函数
+ * @description 执行期间Provide、Inject、Autowired、Store以及未指定容器的getContainer、createScope等均以该应用容器为根容器；
+ * 未通过setAppContextStorage设置应用上下文存储时，应用上下文只在同步执行期间有效
+ * @param appContainer 由createAppContainer创建的应用容器
+ * @param fn 要执行的函数
+ * @returns 函数的返回值
+ * @throws {Error} 传入的容器不是由createAppContainer创建时抛出错误
+ */
+export function runInAppContainer<R>(appContainer: Container, fn: () => R): R {
+  if (!appContainerDictMap.has(appContainer)) {
+    throw new Error(
+      'The container is not an app container, please create it by "createAppContainer".',
+    );
+  }
+  return appContextStorage.run(appContainer, fn);
+}
+
+/**
+ * 获取当前上下文中的应用容器
+ * @returns 应用容器，不在应用上下文中时返回undefined
+ */
+export function getAppContainer(): Container | void {
+  return appContextStorage.getStore();
+}
+
+/**
+ * 销毁应用容器
+ * @description 依次销毁应用容器的命名空间容器与应用容器本身，应在请求结束后调用
+ * @param appContainer 由createAppContainer创建的应用容器
+ */
+export function disposeAppContainer(appContainer: Container): void {
+  disposeTree(appContainer);
+}
+
+/**
+ * 获取当前的根容器
+ * @returns 当前上下文中的应用容器，不在应用上下文中时返回默认容器
  */
-function createSingletonInstance<T>(serviceClass: Constructable<T>, namespace?: string): T {
-  const singletonIns = singleton(serviceClass, namespace);
-  return new singletonIns();
+function getRootContainer(): Container {
+  return appContextStorage.getStore() || container;
+}
+
+/**
+ * 获取根容器的命名空间容器字典
+ * @param rootContainer 默认容器或应用容器
+ * @returns 命名空间容器字典
+ */
+function getContainerDict(rootContainer: Container): Record<string, Container> {
+  return appContainerDictMap.get(rootContainer) || containerDict;
+}
+
+/**
+ * 依次销毁根容器的模块容器、命名空间容器与根容器本身
+ * @param rootContainer 默认容器或应用容器
+ */
+function disposeTree(rootContainer: Container): void {
+  const moduleContainers = moduleContainerMap.get(rootContainer);
+  if (moduleContainers) {
+    Array.from(moduleContainers.values())
+      .reverse()
+      .forEach((moduleContainer) => moduleContainer.dispose());
+    moduleContainers.clear();
+  }
+  const dict = getContainerDict(rootContainer);
+  Object.keys(dict)
+    .reverse()
+    .forEach((namespace) => {
+      dict[namespace].dispose();
+      delete dict[namespace];
+    });
+  rootContainer.dispose();
 }
 
 /**
  * 获取指定命名空间的IoC容器
+ * @description 在应用上下文中获取的是应用容器及其命名空间容器
+ * @param namespace 命名空间，可选，不传则返回根容器
+ * @returns IoC容器对象
+ */
+export function getContainer(namespace?: string): Container {
+  return getContainerIn(getRootContainer(), namespace);
+}
+
+/**
+ * 获取默认容器体系中指定命名空间的IoC容器
+ * @description 不受应用上下文影响，用于声明在所有应用容器中共用的服务
  * @param namespace 命名空间，可选，不传则返回默认容器
- * @returns IoC容器Map对象
+ * @returns IoC容器对象
+ */
+export function getDefaultContainer(namespace?: string): Container {
+  return getContainerIn(container, namespace);
+}
+
+/**
+ * 获取根容器体系中指定命名空间的IoC容器
+ * @param rootContainer 默认容器或应用容器
+ * @param namespace 命名空间，可选，不传则返回根容器
+ * @returns IoC容器对象
+ * @throws {Error} 创建main作用域容器时共享注册表的协议版本不兼容时抛出错误
  */
-export function getContainer(namespace?: string): Map<Constructable<any>, any> {
+function getContainerIn(rootContainer: Container, namespace?: string): Container {
   let targetContainer;
   if (namespace) {
-    // 如果指定了命名空间，获取或创建对应的容器
-    targetContainer = containerDict[namespace];
+    // 如果指定了命名空间，获取或创建对应的容器，新建的命名空间容器以根容器为父容器
+    const dict = getContainerDict(rootContainer);
+    targetContainer = dict[namespace];
     if (!targetContainer) {
-      targetContainer = containerDict[namespace] = new Map<
-        Constructable<any>,
-        any
-      >();
+      // 默认容器体系中的main作用域容器挂载跨应用共享注册表，应用容器之间不共享实例；
+      // 先挂载注册表，版本不兼容时抛出错误而不会留下未挂载注册表的容器
+      const sharedRegistry =
+        rootContainer === container && namespace === MICRO_FRONT_END_MAIN
+          ? attachSharedRegistry()
+          : void 0;
+      targetContainer = dict[namespace] = new Container(rootContainer, namespace);
+      if (rootContainer === container) {
+        namespaceContainers.add(targetContainer);
+        restoreDeclarations(targetContainer, namespace);
+        targetContainer.sharedRegistry = sharedRegistry || void 0;
+      }
     }
   } else {
-    // 未指定命名空间时返回默认容器
-    targetContainer = container;
+    // 未指定命名空间时返回根容器
+    targetContainer = rootContainer;
   }
   return targetContainer;
 }
 
+/**
+ * 以装饰器声明的方式在默认容器体系中注册提供者
+ * @description 声明会被保留，重置或销毁容器后重新创建对应的容器时自动恢复
+ * @param definition 提供者定义
+ * @param namespace 命名空间，可选，不传则在默认容器中声明
+ */
+export function declareProvider<T>(definition: ProviderDefinition<T>, namespace?: string): void {
+  // 先获取容器，新建的容器恢复已有的声明后再追加本次声明
+  const targetContainer = getDefaultContainer(namespace);
+  const declarations = decoratorDeclarations.get(namespace || '') || [];
+  declarations.push(definition);
+  decoratorDeclarations.set(namespace || '', declarations);
+  targetContainer.register(definition);
+}
+
+/**
+ * 在新建的容器中恢复装饰器的声明
+ * @param targetContainer 默认容器或其命名空间容器
+ * @param namespace 命名空间，可选
+ */
+function restoreDeclarations(targetContainer: Container, namespace?: string): void {
+  (decoratorDeclarations.get(namespace || '') || []).forEach((definition) =>
+    targetContainer.register(definition),
+  );
+}
+
+/**
+ * 获取已创建的全部命名空间
+ * @returns 命名空间数组，按创建顺序排列
+ */
+export function getNamespaces(): string[] {
+  return Object.keys(getContainerDict(getRootContainer()));
+}
+
+/**
+ * 创建子容器
+ * @description 子容器中查找不到的服务会回退到父容器，可在子容器中声明服务以覆盖父容器中的同名服务
+ * @param parent 父容器，默认为根容器
+ * @param namespace 命名空间，可选，指定后可通过命名空间配置获取该子容器
+ * @returns 新建的子容器
+ * @example
+ * const ordersContainer = createChildContainer(getContainer(), 'orders');
+ * ordersContainer.declare(OrderService);
+ * // OrderService在orders容器中拥有独立实例，其余服务仍共享根容器中的单例
+ * const orderService = Provide(OrderService, { namespace: 'orders' });
+ */
+export function createChildContainer(
+  parent: Container = getRootContainer(),
+  namespace?: string,
+): Container {
+  const dict = getContainerDict(parent.root);
+  if (namespace && dict[namespace]) {
+    throw new Error(`The container of namespace "${namespace}" has already been created.`);
+  }
+  const child = new Container(parent, namespace);
+  if (namespace) {
+    dict[namespace] = child;
+  }
+  return child;
+}
+
+/**
+ * 获取根容器中模块类对应的模块容器
+ * @param rootContainer 默认容器或应用容器
+ * @param moduleClass 模块类
+ * @returns 模块容器，尚未创建或已被销毁时返回undefined
+ */
+export function getModuleContainer(
+  rootContainer: Container,
+  moduleClass: Constructable<any>,
+): Container | void {
+  return moduleContainerMap.get(rootContainer)?.get(moduleClass);
+}
+
+/**
+ * 在根容器中创建模块类对应的模块容器
+ * @description 模块容器以根容器为父容器、以模块类名为命名空间，但只能通过模块类获取，随根容器一起重置
+ * @param rootContainer 默认容器或应用容器
+ * @param moduleClass 模块类
+ * @returns 新建的模块容器
+ */
+export function createModuleContainer(
+  rootContainer: Container,
+  moduleClass: Constructable<any>,
+): Container {
+  let moduleContainers = moduleContainerMap.get(rootContainer);
+  if (!moduleContainers) {
+    moduleContainerMap.set(rootContainer, (moduleContainers = new Map()));
+  }
+  const moduleContainer = new Container(rootContainer, moduleClass.name);
+  moduleContainers.set(moduleClass, moduleContainer);
+  return moduleContainer;
+}
+
+/**
+ * 设置初始化模块的方法
+ * @param initializer 在当前根容器中初始化模块并返回其模块容器的方法
+ */
+export function setModuleInitializer(
+  initializer: (moduleClass: Constructable<any>) => Container,
+): void {
+  moduleInitializer = initializer;
+}
+
+/**
+ * 销毁根容器中模块类对应的模块容器
+ * @param rootContainer 默认容器或应用容器
+ * @param moduleClass 模块类
+ */
+export function disposeModuleContainer(
+  rootContainer: Container,
+  moduleClass: Constructable<any>,
+): void {
+  const moduleContainer = getModuleContainer(rootContainer, moduleClass);
+  if (moduleContainer) {
+    moduleContainer.dispose();
+    moduleContainerMap.get(rootContainer)?.delete(moduleClass);
+  }
+}
+
+/**
+ * 销毁指定命名空间的IoC容器
+ * @description 按创建的逆序调用容器内实例的onDestroy方法并清空注册，之后再获取该命名空间时会得到新的空容器，适用于微前端子应用卸载
+ * @param namespace 命名空间
+ */
+export function disposeContainer(namespace: string): void {
+  const dict = getContainerDict(getRootContainer());
+  const targetContainer = dict[namespace];
+  if (targetContainer) {
+    targetContainer.dispose();
+    delete dict[namespace];
+  }
+}
+
+/**
+ * 重置所有IoC容器
+ * @description 依次销毁所有命名空间容器与根容器，清空实例、通过register注册的提供者与单例代理缓存，适用于测试用例之间恢复干净的状态；
+ * 通过Service等装饰器声明的服务（生命周期、命名空间与扩展点贡献）以及服务名称会被保留，导入到根容器的模块会重新初始化并导入，重置后的解析行为与重置前一致
+ */
+export function resetContainer(): void {
+  const rootContainer = getRootContainer();
+  const importedModules = Array.from(moduleContainerMap.get(rootContainer) || [])
+    .filter(([, moduleContainer]) => rootContainer.hasImport(moduleContainer))
+    .map(([moduleClass]) => moduleClass as Constructable<any>);
+  disposeTree(rootContainer);
+  if (rootContainer === container) {
+    proxyMap.clear();
+    // 恢复根容器的声明，并重新创建装饰器声明过服务的命名空间容器，使命名空间内的服务仍可被默认方式获取
+    restoreDeclarations(container);
+    decoratorDeclarations.forEach((_, namespace) => namespace && getDefaultContainer(namespace));
+  }
+  // 重新初始化之前导入到根容器的模块，模块容器中的实例仍在首次解析时创建
+  importedModules.forEach(
+    (moduleClass) => moduleInitializer && rootContainer.addImport(moduleInitializer(moduleClass)),
+  );
+}
+
+/**
+ * 创建作用域容器
+ * @description 声明为scoped生命周期的服务在同一个作用域容器内共享实例，例如每个Vue组件或每个请求创建一个作用域
+ * @param parent 父容器，默认为根容器
+ * @returns 新建的作用域容器
+ * @example
+ * const scope = createScope();
+ * const editor = Provide(FormEditorService, { container: scope });
+ */
+export function createScope(parent: Container = getRootContainer()): Container {
+  return new Container(parent, parent.namespace, true);
+}
+
 /**
  * 根据配置获取命名空间
  * @param config 提供者配置，默认为root作用域
@@ -133,8 +983,8 @@ export function getNamespace(
   let namespace;
   switch (config.provideScope) {
     case ProvideScopeKeys.Self:
-      // 自身作用域，使用挂载的应用名称
-      namespace = window.mountedApp;
+      // 自身作用域，使用挂载的应用名称，非浏览器环境中没有挂载的应用
+      namespace = typeof window === 'undefined' ? void 0 : window.mountedApp;
       break;
     case ProvideScopeKeys.Main:
       // 主应用作用域，使用预定义的主应用标识
@@ -148,6 +998,622 @@ export function getNamespace(
   }
   return namespace;
 }
+/**
+ * 根据配置获取目标IoC容器
+ * @param config 提供者配置，默认为root作用域
+ * @returns 配置中显式指定的容器，或命名空间对应的容器
+ */
+export function getTargetContainer(
+  config: IProviderConfigure = {
+    provideScope: ProvideScopeKeys.Root as 'root',
+  },
+): Container {
+  return config.container ?? getContainer(getNamespace(config) as string);
+}
+
+/**
+ * 查找服务的声明容器
+ * @description 沿父容器链查找最近的声明了该服务或持有该服务实例的容器，找不到时回退到服务首次声明所在的容器；
+ * 应用容器体系中找不到时在默认容器体系中查找
+ * @param rawClass 服务原始类
+ * @param targetContainer 发起解析的容器
+ * @returns 声明容器，均找不到时返回undefined
+ */
+export function getDeclaredOwner(
+  rawClass: ProviderToken<any>,
+  targetContainer: Container,
+): Container | void {
+  const declaredOwner = targetContainer.lookup(rawClass);
+  if (declaredOwner || targetContainer.root === container) {
+    return declaredOwner || homeContainerMap.get(rawClass);
+  }
+  // 应用容器体系中找不到时沿用默认容器体系中的声明
+  return getDeclaredOwner(rawClass, container);
+}
+
+/**
+ * 获取服务在指定容器中解析时生效的生命周期
+ * @param serviceClass 服务类构造函数（可以是单例代理类）或注入令牌
+ * @param targetContainer 发起解析的容器
+ * @param lifetime 调用方期望的生命周期，仅在服务未声明生命周期时生效
+ * @returns 生效的生命周期
+ */
+export function getLifetime(
+  serviceClass: ProviderToken<any>,
+  targetContainer: Container = getRootContainer(),
+  lifetime?: ServiceLifetime,
+): ServiceLifetime {
+  const rawClass = getRawClass(serviceClass);
+  const declaredOwner = getDeclaredOwner(rawClass, targetContainer);
+  return (
+    (declaredOwner && declaredOwner.getLifetime(rawClass)) ||
+    lifetime ||
+    (ServiceLifetimeKeys.Singleton as 'singleton')
+  );
+}
+
+/**
+ * 获取类通过静态inject属性声明的构造依赖
+ * @param serviceClass 服务类构造函数
+ * @returns 构造依赖清单，未声明时返回undefined
+ */
+export function getConstructorDeps(serviceClass: ProviderToken<any>): Dependency[] | void {
+  const deps = (serviceClass as InjectableClass).inject;
+  return Array.isArray(deps) ? deps : void 0;
+}
+
+/**
+ * 创建延迟解析的代理对象
+ * @param token 服务类或注入令牌
+ * @param targetContainer 发起解析的容器
+ * @returns 首次访问成员时才解析真实实例的代理对象
+ */
+function createLazyProxy<T>(token: ProviderToken<T>, targetContainer: Container): T {
+  let ins: any;
+  const getInstance = () => (ins = ins || resolve(token, targetContainer));
+  return new Proxy({} as any, {
+    get: (_, name) => Reflect.get(getInstance(), name),
+    set: (_, name, value) => Reflect.set(getInstance(), name, value),
+    has: (_, name) => Reflect.has(getInstance(), name),
+    getPrototypeOf: () => Reflect.getPrototypeOf(getInstance()),
+  });
+}
+
+/**
+ * 按顺序解析依赖清单
+ * @param deps 依赖清单，延迟引用会被解析为代理对象
+ * @param targetContainer 发起解析的容器
+ * @returns 解析出的依赖实例数组
+ */
+function resolveDeps(deps: Dependency[], targetContainer: Container): any[] {
+  return deps.map((dep) =>
+    dep instanceof LazyReference
+      ? createLazyProxy(dep.token, targetContainer)
+      : resolve(dep, targetContainer),
+  );
+}
+
+/**
+ * 按提供者创建服务实例并触发创建事件与初始化方法
+ * @description 工厂提供者直接返回工厂函数的结果，不做清理与初始化；类提供者实例化实现类；
+ * 工厂函数与构造函数在发起解析的容器对应的注入上下文中执行，因此可以调用inject获取依赖
+ * @param rawClass 服务原始类或注入令牌（提供者的键）
+ * @param provider 提供者定义，可选，未注册时直接实例化服务类
+ * @param targetContainer 发起解析的容器，用于解析提供者的依赖
+ * @param argArray 构造参数，提供者声明了deps或实现类声明了静态inject时以解析出的依赖为准
+ * @param owner 持有实例的容器，可选，transient实例不存储到容器
+ * @returns 新建的服务实例
+ * @throws {Error} 注入令牌或抽象类没有可用的提供者时抛出错误
+ */
+function createInstance<T>(
+  rawClass: ProviderToken<T>,
+  provider: ProviderDefinition<T> | void,
+  targetContainer: Container,
+  argArray: any[],
+  owner?: Container,
+): T {
+  // 创建与初始化实例期间新建的事件消息实例归属于持有实例的容器对应的微前端应用
+  const ownerNamespace = (owner || targetContainer).namespace;
+  if (provider && isFunction(provider.useFactory)) {
+    const factory = provider.useFactory;
+    const value = runWithEmitterOwner(ownerNamespace, () =>
+      runInContext(targetContainer, () =>
+        factory(...resolveDeps(provider.deps || [], targetContainer)),
+      ),
+    );
+    owner && owner.hold(rawClass, value);
+    return value;
+  }
+  const implClass = (provider && provider.useClass) || rawClass;
+  if (implClass instanceof InjectionToken) {
+    throw new Error(
+      `No provider for ${getTokenName(implClass)}, please register it by "register" before resolving.`,
+    );
+  }
+  const deps = (provider && provider.deps) || getConstructorDeps(implClass);
+  const args = deps ? resolveDeps(deps, targetContainer) : argArray;
+  const raw: any = runWithEmitterOwner(ownerNamespace, () =>
+    runInContext(targetContainer, () => Reflect.construct(implClass, args)),
+  );
+  // 由模块容器创建的实例，属性注入默认从该模块容器出发解析
+  targetContainer.closestModule() && hostContainerMap.set(raw, targetContainer);
+  // 清理未定义属性并建立懒加载getter
+  clearDirty(raw);
+  // 包装实例（如AOP代理），容器存储与返回包装后的实例
+  const ins: any = wrapInstance(implClass, raw);
+  // 存储到容器
+  owner && owner.hold(rawClass, ins);
+  // 触发服务创建事件
+  createdEmitter.set([implClass as Constructable<any>, ins]);
+  // 调用初始化方法（如果存在），并记录异步初始化的完成状态
+  if (isFunction(ins.onInit)) {
+    const ready = Promise.resolve(
+      runWithEmitterOwner(ownerNamespace, () => ins.onInit(ownerNamespace)),
+    ).then(() => void 0);
+    // 未调用whenReady时初始化失败不会成为未处理的拒绝，whenReady的调用方仍会得到该拒绝
+    ready.catch(() => void 0);
+    readinessMap.set(ins, ready);
+  }
+  return ins;
+}
+
+/**
+ * 在解析链中记录正在创建的服务
+ * @param token 正在创建的服务类或注入令牌
+ * @param create 创建实例的方法
+ * @returns 创建的实例
+ * @throws {CircularDependencyError} 服务已在解析链中时抛出错误
+ */
+function trackResolution<T>(token: ProviderToken<T>, create: () => T): T {
+  const index = resolutionPath.indexOf(token);
+  if (index > -1) {
+    throw new CircularDependencyError(resolutionPath.slice(index).concat(token).map(getTokenName));
+  }
+  resolutionPath.push(token);
+  try {
+    return create();
+  } finally {
+    resolutionPath.pop();
+  }
+}
+
+/**
+ * 在当前应用的容器体系内解析服务实例
+ * @param rawClass 服务原始类或注入令牌
+ * @param requester 发起解析的容器
+ * @param argArray 首次创建实例时传入的构造参数
+ * @param lifetime 调用方期望的生命周期，仅在服务未声明生命周期时生效
+ * @returns 服务实例
+ */
+function resolveLocal<T>(
+  rawClass: ProviderToken<T>,
+  requester: Container,
+  argArray: any[],
+  lifetime?: ServiceLifetime,
+): T {
+  const declaredOwner = getDeclaredOwner(rawClass, requester);
+  if (!declaredOwner && moduleProviderMap.has(rawClass)) {
+    const moduleName = moduleProviderMap.get(rawClass);
+    throw new Error(
+      `${getTokenName(rawClass)} is provided by module ${moduleName} and is not visible here, please export it from ${moduleName} and import ${moduleName} where it is resolved.`,
+    );
+  }
+  // 模块内声明的服务从其所在的模块容器出发创建，以便解析模块内部的依赖
+  const declaredModule = declaredOwner && declaredOwner.closestModule();
+  const targetContainer =
+    declaredModule && requester.closestModule() !== declaredModule ? declaredModule : requester;
+  const provider = declaredOwner && declaredOwner.getProvider(rawClass);
+  if (provider && provider.useExisting) {
+    return resolve(provider.useExisting, targetContainer);
+  }
+  // 沿用默认容器体系中的声明时，预先构建的实例直接共享，其余实例在应用容器内创建
+  const localOwner =
+    declaredOwner && declaredOwner.root === targetContainer.root ? declaredOwner : void 0;
+  if (!localOwner && provider && 'useValue' in provider) {
+    return provider.useValue as T;
+  }
+  let owner: Container | void;
+  switch (getLifetime(rawClass, targetContainer, lifetime)) {
+    case ServiceLifetimeKeys.Transient:
+      return trackResolution(rawClass, () =>
+        createInstance(rawClass, provider, targetContainer, argArray),
+      );
+    case ServiceLifetimeKeys.Scoped:
+      owner = requester.closestScope();
+      if (!owner) {
+        throw new Error(
+          `${getTokenName(rawClass)} is a scoped service, please resolve it from a container created by "createScope".`,
+        );
+      }
+      break;
+    default:
+      owner = localOwner || targetContainer.root;
+  }
+  if (owner.has(rawClass)) {
+    return owner.get(rawClass);
+  }
+  // 不存在则创建新实例并存储到容器
+  return trackResolution(rawClass, () =>
+    createInstance(rawClass, provider, targetContainer, argArray, owner as Container),
+  );
+}
+
+/**
+ * 记录由模块声明的服务
+ * @description 模块声明的服务不会注册到全局容器，从未导入该模块的容器解析时抛出错误而不是创建不受模块管理的实例
+ * @param token 服务类或注入令牌
+ * @param moduleName 模块名称
+ */
+export function recordModuleProvider(token: ProviderToken<any>, moduleName: string): void {
+  moduleProviderMap.set(getRawClass(token), moduleName);
+}
+
+/**
+ * 获取属性注入时发起解析的容器
+ * @description 由模块容器创建的宿主实例在未显式指定容器、命名空间或作用域时从创建它的容器出发解析，其余情况按配置获取目标容器
+ * @param host 宿主实例
+ * @param config 提供者配置，默认为root作用域
+ * @returns 发起解析的容器
+ */
+export function getMemberContainer(
+  host: object,
+  config: IProviderConfigure = {
+    provideScope: ProvideScopeKeys.Root as 'root',
+  },
+): Container {
+  const hostContainer = hostContainerMap.get(host);
+  return hostContainer &&
+    !config.container &&
+    !config.namespace &&
+    (!config.provideScope || config.provideScope === ProvideScopeKeys.Root)
+    ? hostContainer
+    : getTargetContainer(config);
+}
+
+/**
+ * 从指定容器出发解析服务实例
+ * @description 按提供者与生命周期解析：存在测试覆盖时直接返回替身；别名提供者转而解析目标键；singleton沿父容器链查找最近的声明了该服务的容器并在其中获取或创建实例，
+ * 解析链上均未声明时回退到服务首次声明所在的容器，仍找不到则在根容器中创建；
+ * 从main作用域容器出发解析具有Service名称或注入令牌的singleton服务时优先复用共享注册表中其他应用发布的实例，不存在时将本应用的实例发布到注册表；
+ * transient每次创建新实例；scoped在最近的作用域容器内获取或创建实例；
+ * 从应用容器体系出发解析时沿用默认容器体系中的注册，但实例在应用容器内创建
+ * @param serviceClass 服务类构造函数（可以是单例代理类）或注入令牌
+ * @param targetContainer 发起解析的容器，默认为当前的根容器
+ * @param argArray 首次创建实例时传入的构造参数
+ * @param lifetime 调用方期望的生命周期，仅在服务未声明生命周期时生效
+ * @returns 服务实例
+ * @throws {Error} 在作用域容器之外解析scoped服务、令牌没有可用的提供者、服务的注册条件不满足或服务由未导入的模块声明时抛出错误
+ * @throws {CircularDependencyError} 创建实例的过程中依赖链回到了正在创建的服务时抛出错误
+ */
+export function resolve<T>(
+  serviceClass: ProviderToken<T>,
+  targetContainer: Container = getRootContainer(),
+  argArray: any[] = [],
+  lifetime?: ServiceLifetime,
+): T {
+  const rawClass = getRawClass(serviceClass);
+  if (overrideMap.has(rawClass)) {
+    return overrideMap.get(rawClass);
+  }
+  if (!isActive(rawClass)) {
+    throw new Error(
+      `${getTokenName(rawClass)} is not active: ${describeCondition(rawClass)}, active profiles: [${getActiveProfiles().join(', ')}].`,
+    );
+  }
+  const sharedOwner = getSharedOwner(targetContainer);
+  // 没有稳定标识的服务无法在分别打包的应用之间对应，只在本应用内共享
+  const key = sharedOwner && getShareKey(rawClass);
+  if (
+    !sharedOwner ||
+    !key ||
+    getLifetime(rawClass, targetContainer, lifetime) !== ServiceLifetimeKeys.Singleton
+  ) {
+    return resolveLocal(rawClass, targetContainer, argArray, lifetime);
+  }
+  const instances = (sharedOwner.sharedRegistry as ISharedRegistry).instances;
+  return key in instances
+    ? instances[key]
+    : sharedOwner.publish(key, resolveLocal(rawClass, targetContainer, argArray, lifetime));
+}
+
+/**
+ * 沿父容器链查找挂载了共享注册表的容器
+ * @param targetContainer 发起解析的容器
+ * @returns 挂载了共享注册表的容器，找不到时返回undefined
+ */
+function getSharedOwner(targetContainer: Container): Container | void {
+  let current: Container | undefined = targetContainer;
+  while (current && !current.sharedRegistry) {
+    current = current.parent;
+  }
+  return current;
+}
+
+/**
+ * 获取服务在共享注册表中的键
+ * @description 分别打包的应用持有不同的类对象，因此以Service注册的名称或注入令牌的描述作为跨应用的标识；
+ * 类名不唯一且会被代码压缩改写，不作为标识
+ * @param rawClass 服务原始类或注入令牌
+ * @returns 共享键，没有Service注册的名称的类返回undefined
+ */
+export function getShareKey(rawClass: ProviderToken<any>): string | void {
+  if (rawClass instanceof InjectionToken) {
+    return rawClass.toString();
+  }
+  for (const [name, serviceClass] of memberIdentificationContainer) {
+    if (getRawClass(serviceClass) === rawClass) {
+      return name;
+    }
+  }
+}
+
+/**
+ * 从指定容器出发解析扩展点的全部贡献
+ * @description 沿父容器链收集多提供者，祖先容器的贡献在前，然后按order升序排列，order相同时保持注册顺序；
+ * 存在测试覆盖时直接返回替身
+ * @param token 扩展点的类或注入令牌
+ * @param targetContainer 发起解析的容器
+ * @returns 各个贡献的实例数组，没有贡献时返回空数组
+ */
+export function resolveAll<T>(
+  token: ProviderToken<T>,
+  targetContainer: Container = getRootContainer(),
+): T[] {
+  const rawClass = getRawClass(token);
+  if (overrideMap.has(rawClass)) {
+    return overrideMap.get(rawClass);
+  }
+  const chain: Container[] = [];
+  for (let current: Container | undefined = targetContainer; current; current = current.parent) {
+    chain.unshift(current);
+  }
+  // 应用容器同样收集默认容器中注册的贡献
+  chain[0] !== container && chain.unshift(container);
+  return chain
+    .reduce(
+      (contributions, current) => contributions.concat(current.getContributions(rawClass)),
+      [] as { key: InjectionToken<any>; order: number }[],
+    )
+    .sort((a, b) => a.order - b.order)
+    .map(({ key }) => resolve<T>(key, targetContainer));
+}
+
+/**
+ * 向IoC容器注册提供者
+ * @description 可注册预先构建的实例、工厂函数、实现类或别名，Provide、Inject与Autowired解析时均以注册的提供者为准
+ * @param definition 提供者定义
+ * @param config 提供者配置，默认为root作用域，用于确定注册到哪个容器
+ * @example
+ * // 注册预先构建的实例
+ * register({ provide: HttpClient, useValue: new ApiClient(baseUrl) });
+ * // 注册依赖其他服务的工厂函数
+ * register({ provide: Logger, useFactory: (config) => new Logger(config.level), deps: [AppConfig] });
+ * // 注册别名
+ * register({ provide: CacheService, useExisting: MemoryCacheService });
+ * // 向扩展点追加贡献，通过resolveAll或InjectAll按order获取全部贡献
+ * register({ provide: HTTP_INTERCEPTORS, useClass: AuthInterceptor, multi: true, order: 10 });
+ */
+export function register<T>(
+  definition: ProviderDefinition<T>,
+  config: IProviderConfigure = {
+    provideScope: ProvideScopeKeys.Root as 'root',
+  },
+): void {
+  getTargetContainer(config).register(definition);
+}
+
+/**
+ * 覆盖服务的解析结果
+ * @description 覆盖后Provide、Inject与Autowired在所有容器中都会返回替身，主要用于单元测试
+ * @param serviceClass 被覆盖的服务类或注入令牌
+ * @param fake 替身
+ * @returns 恢复覆盖前状态的函数
+ * @example
+ * const restore = overrideProvider(UserService, { getUserInfo: () => mockUser });
+ * // ...执行测试
+ * restore();
+ */
+export function overrideProvider<T>(serviceClass: ProviderToken<T>, fake: Partial<T>): () => void {
+  const rawClass = getRawClass(serviceClass);
+  const overridden = overrideMap.has(rawClass);
+  const previous = overrideMap.get(rawClass);
+  overrideMap.set(rawClass, fake);
+  return () => {
+    if (overridden) {
+      overrideMap.set(rawClass, previous);
+    } else {
+      overrideMap.delete(rawClass);
+    }
+  };
+}
+
+/**
+ * 判断服务是否被覆盖
+ * @param serviceClass 服务类或注入令牌
+ */
+export function hasOverride(serviceClass: ProviderToken<any>): boolean {
+  return overrideMap.has(getRawClass(serviceClass));
+}
+
+/**
+ * 以名称注册服务类
+ * @description 同一名称可以注册多个声明了注册条件的实现，按名称查找时选择当前可用的实现
+ * @param name 服务名称
+ * @param serviceClass 服务类（可以是单例代理类）
+ */
+export function registerName(name: string, serviceClass: Constructable<any>): void {
+  memberIdentificationContainer.set(name, serviceClass);
+  namedCandidates.set(name, (namedCandidates.get(name) || []).concat(serviceClass));
+}
+
+/**
+ * 按限定名查找通过Service注册的服务类
+ * @description 同一基类可以有多个以不同名称注册的实现，通过限定名选择其中之一；
+ * 同一名称注册了多个条件实现时优先选择当前可用的条件实现，其次选择未声明条件的实现
+ * @param qualifier 限定名，即Service装饰器注册时使用的名称
+ * @param baseClass 期望的基类或注入令牌，可选，传入类时会校验查找到的服务是否为其实现
+ * @param optional 是否可选，为true时没有可用的实现返回undefined而不抛出错误
+ * @returns 限定名对应的服务类，未注册时返回undefined
+ * @throws {Error} 查找到的服务不是基类的实现，或以该名称注册的实现均不可用时抛出错误
+ */
+export function getQualified<T>(
+  qualifier: string,
+  baseClass?: ProviderToken<T>,
+  optional: boolean = false,
+): Constructable<T> | undefined {
+  let qualified = memberIdentificationContainer.get(qualifier);
+  const candidates = (namedCandidates.get(qualifier) || []).map((candidate) =>
+    getRawClass(candidate),
+  );
+  if (candidates.some(isConditional)) {
+    const active = candidates.filter(isActive);
+    qualified = active.find(isConditional) || active[0];
+    if (!qualified && !optional) {
+      const conditions = candidates.map(
+        (candidate) => `${getTokenName(candidate)} ${describeCondition(candidate)}`,
+      );
+      throw new Error(
+        `No active implementation of "${qualifier}": ${conditions.join('; ')}, active profiles: [${getActiveProfiles().join(', ')}].`,
+      );
+    }
+  }
+  if (qualified && baseClass && !(baseClass instanceof InjectionToken)) {
+    const rawBase = getRawClass(baseClass);
+    const rawQualified = getRawClass(qualified);
+    if (rawBase !== rawQualified && !(rawQualified.prototype instanceof rawBase)) {
+      throw new Error(
+        `Service "${qualifier}"(${getTokenName(rawQualified)}) is not an implementation of ${getTokenName(rawBase)}`,
+      );
+    }
+  }
+  return qualified;
+}
+
+/**
+ * 判断服务在指定容器中是否可解析到已注册的提供者或实例
+ * @param serviceClass 服务类或注入令牌
+ * @param targetContainer 发起解析的容器，默认为根容器
+ * @returns 已覆盖、已注册或已创建实例时返回true
+ */
+export function isProvided(
+  serviceClass: ProviderToken<any>,
+  targetContainer: Container = getRootContainer(),
+): boolean {
+  return (
+    hasOverride(serviceClass) || !!getDeclaredOwner(getRawClass(serviceClass), targetContainer)
+  );
+}
+
+/**
+ * 在覆盖服务的情况下执行函数
+ * @description 执行期间按给定的映射覆盖服务，函数执行结束（返回Promise时为Promise结束）后恢复覆盖前状态
+ * @param overrides 服务类或注入令牌到替身的映射
+ * @param fn 要执行的函数
+ * @returns 函数的返回值
+ * @example
+ * await withOverrides([[HttpClient, fakeHttp]], async () => {
+ *   expect(await Provide(UserService).load()).toEqual(mockUser);
+ * });
+ */
+export function withOverrides<R>(
+  overrides: Map<ProviderToken<any>, any> | [ProviderToken<any>, any][],
+  fn: () => R,
+): R {
+  const restores = Array.from(overrides).map(([serviceClass, fake]) =>
+    overrideProvider(serviceClass, fake),
+  );
+  const restore = () => restores.reverse().forEach((cb) => cb());
+  let result: R;
+  try {
+    result = fn();
+  } catch (e) {
+    restore();
+    throw e;
+  }
+  if (result instanceof Promise) {
+    return result.finally(restore) as R;
+  }
+  restore();
+  return result;
+}
+
+/**
+ * 获取服务在指定容器中解析时的全部直接依赖
+ * @description 包括提供者声明的deps、实现类的静态inject以及通过属性注入记录的依赖
+ * @param rawClass 服务原始类或注入令牌
+ * @param targetContainer 发起解析的容器
+ * @returns 直接依赖的服务类或注入令牌数组
+ */
+export function getDependencies(
+  rawClass: ProviderToken<any>,
+  targetContainer: Container,
+): ProviderToken<any>[] {
+  const declaredOwner = getDeclaredOwner(rawClass, targetContainer);
+  const provider = declaredOwner && declaredOwner.getProvider(rawClass);
+  if (provider && provider.useExisting) {
+    return [provider.useExisting];
+  }
+  const implClass = (provider && provider.useClass) || rawClass;
+  const deps = (provider && provider.deps) || getConstructorDeps(implClass) || [];
+  return deps
+    .map((dep) => (dep instanceof LazyReference ? dep.token : dep))
+    .concat(Array.from(dependencyGraph.get(implClass) || []));
+}
+
+/**
+ * 等待服务及其传递依赖的服务全部完成初始化
+ * @description 服务的onInit方法可以返回Promise，解析服务及其依赖后等待所有onInit完成；transient依赖每次注入的实例不同，因此不等待
+ * @param serviceClass 服务类构造函数或注入令牌
+ * @param config 提供者配置，默认为root作用域
+ * @returns 初始化完成后解析为服务实例的Promise，任一onInit失败时拒绝
+ * @example
+ * const userService = await whenReady(UserService);
+ */
+export function whenReady<T>(
+  serviceClass: ProviderToken<T>,
+  config: IProviderConfigure = {
+    provideScope: ProvideScopeKeys.Root as 'root',
+  },
+): Promise<T> {
+  const targetContainer = getTargetContainer(config);
+  const visited: Set<ProviderToken<any>> = new Set();
+  const wait = (token: ProviderToken<any>, lifetime?: ServiceLifetime): Promise<void> => {
+    const rawClass = getRawClass(token);
+    if (visited.has(rawClass)) {
+      return Promise.resolve();
+    }
+    visited.add(rawClass);
+    const ins = resolve(rawClass, targetContainer, [], lifetime);
+    const deps = getDependencies(rawClass, targetContainer).filter(
+      (dep) => getLifetime(dep, targetContainer) !== ServiceLifetimeKeys.Transient,
+    );
+    return Promise.all([
+      (ins && readinessMap.get(ins)) || Promise.resolve(),
+      ...deps.map((dep) => wait(dep)),
+    ]).then(() => void 0);
+  };
+  return wait(serviceClass, config.lifetime).then(() =>
+    resolve(serviceClass, targetContainer, [], config.lifetime),
+  );
+}
+
+/**
+ * 启动应用服务
+ * @description 解析给定的服务并等待它们及其传递依赖的服务全部完成初始化
+ * @param services 需要启动的服务类或注入令牌数组
+ * @param config 提供者配置，默认为root作用域
+ * @returns 全部初始化完成后按顺序解析为服务实例数组的Promise
+ * @example
+ * await bootstrap([AuthService, ConfigService]);
+ * app.mount('#app');
+ */
+export function bootstrap(
+  services: ProviderToken<any>[],
+  config?: IProviderConfigure,
+): Promise<any[]> {
+  return Promise.all(services.map((service) => whenReady(service, config)));
+}
+
 /**
  * IoC单例方法，将静态类转换为单例模式的代理实例
  * @param serviceClass 要转换为单例的服务类构造函数
@@ -159,32 +1625,20 @@ export function singleton<T>(serviceClass: Constructable<T>, namespace?: string)
   if ((serviceClass as any)[IS_SINGLETON_PROXY] === singletonProxySymbol) {
     return serviceClass;
   }
-  
-  // 获取目标容器
-  const targetContainer = getContainer(namespace);
-  
+
   // 查找是否已有对应的代理
   let proxy = proxyMap.get(serviceClass);
   if (!proxy) {
     // 创建新的代理实例
     proxy = new Proxy(serviceClass, {
-      // 拦截构造函数调用
-      construct(target, argArray, newTarget) {
-        // 从容器中获取实例
-        let ins: any = targetContainer.get(serviceClass);
-        if (!ins) {
-          // 不存在则创建新实例
-          ins = Reflect.construct(target, argArray, newTarget);
-          // 清理未定义属性并建立懒加载getter
-          clearDirty(ins);
-          // 存储到容器
-          targetContainer.set(serviceClass, ins);
-          // 触发服务创建事件
-          createdEmitter.set([serviceClass, ins]);
-          // 调用初始化方法（如果存在）
-          isFunction(ins.onInit) && ins.onInit(namespace);
+      // 拦截构造函数调用，从命名空间对应的容器出发解析实例
+      construct(target, argArray) {
+        // 声明了构造依赖的类在显式传入构造参数时创建不受容器管理的实例，便于单元测试传入替身
+        if (argArray.length && getConstructorDeps(target)) {
+          const rawClass = getRawClass(target);
+          return wrapInstance(rawClass, Reflect.construct(rawClass, argArray));
         }
-        return ins;
+        return resolve<any>(target, getContainer(namespace), argArray);
       },
       // 拦截属性访问
       get: (target: any, name) => {
@@ -192,29 +1646,95 @@ export function singleton<T>(serviceClass: Constructable<T>, namespace?: string)
         return name === IS_SINGLETON_PROXY ? singletonProxySymbol : target[name];
       },
     });
-    
+
     // 确保原型链正确
     proxy.prototype.constructor = proxy;
     // 保存到代理映射中
     proxyMap.set(serviceClass, proxy);
+    rawClassMap.set(proxy, getRawClass(serviceClass));
   }
-  
+
   return proxy;
 }
 
 /**
  * 从IoC容器中提供类的实例
- * @param serviceClass 要提供的服务类构造函数
- * @param config 提供者配置，默认为root作用域
- * @returns 服务的单例实例
+ * @param serviceClass 要提供的服务类构造函数或注入令牌
+ * @param config 提供者配置，默认为root作用域，可通过container指定发起解析的容器，通过lifetime指定生命周期
+ * @returns 服务实例
  */
 export function Provide<T>(
-  serviceClass: Constructable<T>,
+  serviceClass: ProviderToken<T>,
   config: IProviderConfigure = {
     provideScope: ProvideScopeKeys.Root as 'root',
   },
 ): T {
-  return createSingletonInstance(serviceClass, getNamespace(config) as string);
+  return resolve(serviceClass, getTargetContainer(config), [], config.lifetime);
+}
+
+/**
+ * 在指定容器的注入上下文中同步执行函数
+ * @description 函数执行期间调用inject会从该容器出发解析服务，执行结束后恢复之前的注入上下文；
+ * 注入上下文不会延续到异步回调中，需要在await之前调用inject
+ * @param targetContainer 注入上下文对应的容器
+ * @param fn 要执行的函数
+ * @returns 函数的返回值
+ * @example
+ * const scope = createScope();
+ * const editor = runInContext(scope, () => useFormEditor());
+ */
+export function runInContext<R>(targetContainer: Container, fn: () => R): R {
+  const previous = injectionContext;
+  injectionContext = targetContainer;
+  try {
+    return fn();
+  } finally {
+    injectionContext = previous;
+  }
+}
+
+/**
+ * 获取当前的注入上下文
+ * @returns 注入上下文对应的容器，不在注入上下文中时返回undefined
+ */
+export function getInjectionContext(): Container | void {
+  return injectionContext;
+}
+
+/**
+ * 从当前的注入上下文中解析服务实例
+ * @description 与Inject装饰器使用相同的解析规则，可在runInContext的回调、工厂提供者以及由容器创建的类的构造函数中调用
+ * @param token 服务类或注入令牌
+ * @param options 注入选项，可选，支持optional、qualifier与lifetime
+ * @returns 服务实例，optional为true且服务未注册时返回undefined
+ * @throws {Error} 不在注入上下文中调用时抛出错误
+ * @example
+ * register({
+ *   provide: ORDER_API,
+ *   useFactory: () => new OrderApi(inject(HttpClient), inject(LOGGER)),
+ * });
+ */
+export function inject<T>(
+  token: ProviderToken<T>,
+  options: Pick<IInjectOptions, 'optional' | 'qualifier' | 'lifetime'> = {},
+): T {
+  if (!injectionContext) {
+    throw new Error(
+      `inject(${getTokenName(getRawClass(token))}) can only be called inside an injection context, please call it in the callback of "runInContext", a factory provider or the constructor of a service created by the container.`,
+    );
+  }
+  const serviceClass = options.qualifier
+    ? getQualified(options.qualifier, token, options.optional)
+    : token;
+  if (options.optional && (!serviceClass || !isProvided(serviceClass, injectionContext))) {
+    return void 0 as T;
+  }
+  if (!serviceClass) {
+    throw new Error(
+      `${options.qualifier} has not been declared, please use "Service" decorator to declare ${options.qualifier}`,
+    );
+  }
+  return resolve(serviceClass, injectionContext, [], options.lifetime);
 }
 
 /**
@@ -239,8 +1759,14 @@ createdEmitter.listen(([staticClass, ins]) => cbs.forEach((e) => e(staticClass,
  */
 export interface IService {
   /**
-   * 初始化方法，在服务实例创建后调用
+   * 初始化方法，在服务实例创建后调用，返回Promise时可通过whenReady或bootstrap等待其完成
+   * @param namespace 服务所在的命名空间，可选
+   */
+  onInit?: (namespace?: string) => void | Promise<void>;
+
+  /**
+   * 销毁方法，在所在容器被销毁时按创建的逆序调用，用于释放Emitter频道、定时器、socket等资源
    * @param namespace 服务所在的命名空间，可选
    */
-  onInit?: (namespace?: string) => void;
+  onDestroy?: (namespace?: string) => void;
 }
@@ -0,0 +1,95 @@
+/**
+ * 跨应用共享注册表模块
+ * 在微前端架构中，主应用与子应用分别打包，各自持有独立的IoC容器，
+ * 该模块在全局对象上维护一份共享注册表，使main作用域的服务实例能够在各个应用之间共享
+ */
+import { PROJECT_KEY } from './util.schema';
+
+/**
+ * 共享注册表在全局对象上的键
+ */
+export const SHARED_REGISTRY_KEY = `${PROJECT_KEY}_MAIN_SCOPE_REGISTRY`;
+
+/**
+ * 当前实现的注册表协议版本
+ */
+export const SHARED_REGISTRY_VERSION = 1;
+
+/**
+ * 当前实现能够读写的最低注册表协议版本
+ */
+const MIN_SHARED_REGISTRY_VERSION = 1;
+
+/**
+ * 共享注册表接口
+ * @description 注册表只包含数据，不包含方法，以便不同版本的实现都能读写
+ */
+export interface ISharedRegistry {
+  /**
+   * 创建注册表的实现所使用的协议版本
+   */
+  version: number;
+
+  /**
+   * 读写该注册表所需的最低协议版本
+   */
+  minVersion: number;
+
+  /**
+   * 创建注册表的应用名称
+   */
+  owner?: string;
+
+  /**
+   * 共享键到服务实例的映射
+   */
+  instances: Record<string, any>;
+}
+
+/**
+ * 判断当前实现是否能够使用已存在的注册表
+ * @param registry 已存在的注册表
+ * @returns 双方的协议版本互相兼容时返回true
+ */
+function isCompatible(registry: ISharedRegistry): boolean {
+  return (
+    SHARED_REGISTRY_VERSION >= registry.minVersion &&
+    registry.version >= MIN_SHARED_REGISTRY_VERSION
+  );
+}
+
+/**
+ * 获取或创建全局共享注册表
+ * @description 注册表挂载在window.global上，首个加载的应用（通常是主应用）负责创建，后续应用协商版本后复用；
+ * 不在浏览器环境中时返回undefined，此时main作用域退化为当前应用内共享
+ * @returns 可用的共享注册表，不在浏览器环境中时返回undefined
+ * @throws {Error} 已存在的注册表与当前实现的协议版本不兼容时抛出错误
+ */
+export function attachSharedRegistry(): ISharedRegistry | void {
+  if (typeof window === 'undefined') {
+    return;
+  }
+  const scope = (window.global = window.global || {});
+  let registry: ISharedRegistry | undefined = scope[SHARED_REGISTRY_KEY];
+  if (!registry) {
+    registry = scope[SHARED_REGISTRY_KEY] = {
+      version: SHARED_REGISTRY_VERSION,
+      minVersion: MIN_SHARED_REGISTRY_VERSION,
+      owner: window.mountedApp,
+      instances: {},
+    };
+  } else if (!isCompatible(registry)) {
+    throw new Error(
+      `The shared registry created by ${registry.owner || 'another app'} uses protocol version ${registry.version} (requires at least ${registry.minVersion}), which is incompatible with version ${SHARED_REGISTRY_VERSION} of ${window.mountedApp || 'this app'}, please upgrade the apps to compatible versions of @baldwinli/core to share services in "main" scope.`,
+    );
+  }
+  return registry;
+}
+
+/**
+ * 获取已挂载的全局共享注册表
+ * @returns 注册表，尚未创建时返回undefined
+ */
+export function getSharedRegistry(): ISharedRegistry | void {
+  return typeof window === 'undefined' ? void 0 : window.global?.[SHARED_REGISTRY_KEY];
+}
@@ -1,78 +1,318 @@
-import { isFunction } from 'radash';
+import { isArray, isFunction } from 'radash';
+import type { PointcutExpression } from './pointcut';
+import { Pointcut, pointcut } from './pointcut';
 
 /**
  * @description 建议拦截器选项
  */
 export interface InterceptorOption<T> {
-  // 通知方法在目标方法调用之前执行, 返回true之后目标方法才会执行
+  // 执行顺序, 默认为0; 数值小的切面在外层, before先执行, after后执行
+  order?: number;
+  // 切面拦截的切入点表达式, 与useAdvice或Advice的拦截范围同时满足时拦截
+  pointcut?: PointcutExpression;
+  // 通知方法在目标方法调用之前执行, 返回true之后目标方法才会执行, 否则抛出AdviceRejectedError
   before?: (methodName: string, thisArg?: T, args?: unknown[]) => boolean | Promise<boolean>;
-  // 通知方法在目标方法调用之后执行
+  // 通知方法在目标方法正常返回之后执行, 抛出的异常不会交给throwing处理
   after?: (
     methodName: string,
     thisArg?: T,
     result?: unknown,
     args?: unknown[],
   ) => void | Promise<void>;
-  // 通知方法在目标方法抛出异常后执行
+  // 通知方法在目标方法抛出异常后执行, 返回undefined时重新抛出原异常, 返回Error实例时抛出该异常代替原异常, 返回其他值时作为方法的返回结果
   throwing?: (
     methodName: string,
     thisArg?: T,
     err?: Error,
     args?: unknown[],
-  ) => void | Promise<void>;
-  // 通知方法会将目标方法封装起来, 必须返回目标方法执行后的返回结果
+  ) => unknown | Promise<unknown>;
+  // 通知方法在目标方法正常返回或抛出异常之后执行, 在after与throwing之后执行; before拒绝调用时同样执行
+  finally?: (methodName: string, thisArg?: T, args?: unknown[]) => void | Promise<void>;
+  // 通知方法会将目标方法封装起来, 调用proceed执行内层切面与目标方法, 不传参数时使用原参数, 必须返回执行后的返回结果
   around?: (
     methodName: string,
     thisArg?: T,
     args?: unknown[],
-    targetMethod?: (...args: unknown[]) => unknown,
+    proceed?: (...args: unknown[]) => unknown,
   ) => unknown | Promise<unknown>;
 }
+
 /**
- * @description 将对象转化为AOP执行建议拦截代理对象, 用于实现在不修改源代码的情况下给程序动态统一添加额外功能, 应用主要体现在事务处理、日志管理、权限控制、异常处理等方面
- * @attention 为了兼容拦截的异步情况, 被拦截的方法会强行返回Promise实例
+ * 连接点，即被拦截的一次方法调用
  */
-export function useAdvice<T extends object>(
-  target: T, // 目标对象实例
-  interceptorOption: InterceptorOption<T>, // 建议拦截器选项
-  targetFunctions?: ((...args: unknown[]) => unknown)[], // 建议拦截的方法清单, 默认全部拦截(除Object实例的方法)
-): T {
+export interface JoinPoint<T = any> {
+  /**
+   * 方法名称
+   */
+  methodName: string;
+
+  /**
+   * 调用参数
+   */
+  args: unknown[];
+
+  /**
+   * 方法所属的实例
+   */
+  target: T;
+
+  /**
+   * 通知装饰器声明的元数据
+   */
+  metadata: Dict<any>;
+}
+
+/**
+ * 可继续执行的连接点，供Around通知使用
+ */
+export interface ProceedingJoinPoint<T = any> extends JoinPoint<T> {
+  /**
+   * 执行内层通知与目标方法，不传参数时使用原参数
+   */
+  proceed: (...args: unknown[]) => unknown;
+}
+
+/**
+ * 前置通知拒绝错误
+ * @description 拦截器选项的before返回false时抛出，调用方可以据此区分被拒绝的调用与方法本身的异常
+ */
+export class AdviceRejectedError extends Error {
+  /**
+   * 构造函数
+   * @param methodName 被拒绝的方法名称
+   */
+  constructor(public readonly methodName: string) {
+    super(`Method ${methodName} was rejected by the before advice.`);
+    this.name = 'AdviceRejectedError';
+  }
+}
+
+/**
+ * 切面，即拦截器选项及其生效的切入点
+ */
+export interface Aspect<T> {
+  /**
+   * 拦截器选项
+   */
+  option: InterceptorOption<T>;
+
+  /**
+   * 生效的切入点，为空时拦截全部方法
+   */
+  pointcut?: Pointcut;
+}
+
+/**
+ * 将建议拦截的方法清单转换为切入点
+ * @param targetFunctions 切入点表达式或方法清单，方法清单为空时拦截全部方法
+ */
+function toPointcut(
+  targetFunctions?: PointcutExpression | ((...args: unknown[]) => unknown)[],
+): Pointcut | undefined {
+  if (isArray(targetFunctions)) {
+    return targetFunctions.length
+      ? new Pointcut(
+          (methodName, instance) => targetFunctions.includes(instance[methodName]),
+          targetFunctions.map((fn) => fn.name).join(' | '),
+        )
+      : undefined;
+  }
+  return targetFunctions === undefined ? undefined : pointcut(targetFunctions);
+}
+
+/**
+ * 判断值是否为Promise等thenable对象
+ * @param value 要判断的值
+ */
+function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+  return isFunction((value as any)?.then);
+}
+
+/**
+ * 在值就绪后执行下一步
+ * @description 值为Promise时异步执行并返回Promise，否则同步执行，使同步的拦截链保持同步
+ * @param value 当前步骤的结果
+ * @param next 下一步
+ * @returns 下一步的结果
+ */
+function pipe<T>(value: unknown, next: (value: any) => T): T | Promise<T> {
+  return isPromiseLike(value) ? Promise.resolve(value).then(next) : next(value);
+}
+
+/**
+ * 执行步骤并分别处理结果与异常
+ * @description 同步抛出的异常与Promise的拒绝交给异常处理，结果处理抛出的异常不会进入异常处理
+ * @param run 要执行的步骤
+ * @param onResult 结果处理
+ * @param onError 异常处理
+ * @returns 结果处理或异常处理的结果
+ */
+function attempt(
+  run: () => unknown,
+  onResult: (value: any) => unknown,
+  onError: (err: any) => unknown,
+): unknown {
+  let result: unknown;
+  try {
+    result = run();
+  } catch (e: Error | any) {
+    return onError(e);
+  }
+  return isPromiseLike(result) ? Promise.resolve(result).then(onResult, onError) : onResult(result);
+}
+
+/**
+ * 创建切面
+ * @param interceptorOptions 拦截器选项
+ * @param targetFunctions 切入点表达式或方法清单，与拦截器选项自身的切入点同时满足时拦截
+ * @returns 切面数组，保持拦截器选项的顺序
+ */
+export function createAspects<T>(
+  interceptorOptions: InterceptorOption<T> | InterceptorOption<T>[],
+  targetFunctions?: PointcutExpression | ((...args: unknown[]) => unknown)[],
+): Aspect<T>[] {
+  const targetPointcut = toPointcut(targetFunctions);
+  return (isArray(interceptorOptions) ? interceptorOptions : [interceptorOptions]).map((option) => {
+    const optionPointcut = option.pointcut === undefined ? undefined : pointcut(option.pointcut);
+    return {
+      option,
+      pointcut:
+        optionPointcut && targetPointcut
+          ? targetPointcut.and(optionPointcut)
+          : optionPointcut || targetPointcut,
+    };
+  });
+}
+
+/**
+ * 执行步骤后执行收尾步骤
+ * @description 步骤正常返回时返回其结果，抛出异常或Promise拒绝时在收尾步骤完成后重新抛出
+ * @param run 要执行的步骤
+ * @param onFinally 收尾步骤
+ * @returns 步骤的结果
+ */
+function ensure(run: () => unknown, onFinally: () => unknown): unknown {
+  let result: unknown;
+  try {
+    result = run();
+  } catch (e: Error | any) {
+    return pipe(onFinally(), () => {
+      throw e;
+    });
+  }
+  return isPromiseLike(result)
+    ? Promise.resolve(result).then(
+        (value) => pipe(onFinally(), () => value),
+        (e) =>
+          pipe(onFinally(), () => {
+            throw e;
+          }),
+      )
+    : pipe(onFinally(), () => result);
+}
+
+/**
+ * 按切面执行一次方法调用
+ * @description 依次进入各切面，最内层调用目标方法
+ * @param aspects 已排序的切面数组
+ * @param methodName 方法名称
+ * @param target 目标对象实例，传给通知方法
+ * @param thisArg 调用目标方法时的this
+ * @param targetMethod 目标方法
+ * @param argumentsList 调用参数
+ * @returns 方法调用的结果
+ */
+export function runAspects<T>(
+  aspects: Aspect<T>[],
+  methodName: string,
+  target: T,
+  thisArg: unknown,
+  targetMethod: (...args: unknown[]) => unknown,
+  argumentsList: unknown[],
+): unknown {
+  const invoke = (index: number, args: unknown[]): unknown => {
+    if (index === aspects.length) {
+      return targetMethod.apply(thisArg, args);
+    }
+    const { before, after, throwing, around, finally: onFinally } = aspects[index].option;
+    const proceed = (...proceedArgs: unknown[]) =>
+      invoke(index + 1, proceedArgs.length ? proceedArgs : args);
+    const afterReturning = (result: unknown) =>
+      pipe(isFunction(after) && after(methodName, target, result, args), () => result);
+    const afterThrowing = (e: Error | any) =>
+      pipe(isFunction(throwing) ? throwing(methodName, target, e, args) : undefined, (handled) => {
+        if (handled === undefined) {
+          throw e;
+        }
+        if (handled instanceof Error) {
+          throw handled;
+        }
+        return handled;
+      });
+    // after抛出的异常不交给throwing处理；before拒绝调用时finally同样执行
+    return ensure(
+      () =>
+        pipe(isFunction(before) ? before(methodName, target, args) : true, (allowed) => {
+          if (!allowed) {
+            throw new AdviceRejectedError(methodName);
+          }
+          return attempt(
+            () => (isFunction(around) ? around(methodName, target, args, proceed) : proceed()),
+            afterReturning,
+            afterThrowing,
+          );
+        }),
+      () => isFunction(onFinally) && onFinally(methodName, target, args),
+    );
+  };
+  return invoke(0, argumentsList);
+}
+
+/**
+ * 按切面将对象转化为AOP执行建议拦截代理对象
+ * @description 切面按order升序由外向内嵌套，order相同时保持数组中的顺序，每个切面只拦截匹配其切入点的方法
+ * @param target 目标对象实例
+ * @param aspects 切面数组
+ * @returns 代理对象
+ */
+export function adviseWith<T extends object>(target: T, aspects: Aspect<T>[]): T {
+  const sortedAspects = [...aspects].sort((a, b) => (a.option.order || 0) - (b.option.order || 0));
   return new Proxy(target, {
-    get: (obj: { [key: string]: any } & T, name: string) => {
-      if (isFunction(obj[name]) && !Object.getOwnPropertyNames(Object.prototype).includes(name)) {
-        return new Proxy(obj[name], {
-          apply: async (
-            targetMethod: (...args: unknown[]) => unknown | Promise<unknown>,
-            thisArg,
-            argumentsList,
-          ) => {
-            if (
-              (!targetFunctions ||
-                targetFunctions.length === 0 ||
-                targetFunctions.includes(targetMethod)) &&
-              (!isFunction(interceptorOption.before) ||
-                (await interceptorOption.before(name, obj, argumentsList)))
-            ) {
-              let result;
-              try {
-                if (isFunction(interceptorOption.around)) {
-                  result = await interceptorOption.around(name, obj, argumentsList, targetMethod);
-                } else {
-                  result = await targetMethod.apply(thisArg, argumentsList);
-                }
-                isFunction(interceptorOption.after) &&
-                  (await interceptorOption.after(name, obj, result, argumentsList));
-              } catch (e: Error | any) {
-                isFunction(interceptorOption.throwing) &&
-                  (await interceptorOption.throwing(name, obj, e, argumentsList));
-              }
-              return result;
-            }
-          },
-        });
-      } else {
+    get: (obj: { [key: string | symbol]: any } & T, name: string | symbol) => {
+      // Symbol.iterator等以symbol为键的方法不做拦截
+      if (
+        typeof name === 'symbol' ||
+        !isFunction(obj[name]) ||
+        Object.getOwnPropertyNames(Object.prototype).includes(name)
+      ) {
+        return obj[name];
+      }
+      const matchedAspects = sortedAspects.filter(
+        (aspect) => !aspect.pointcut || aspect.pointcut.matches(name, obj),
+      );
+      if (!matchedAspects.length) {
         return obj[name];
       }
+      return new Proxy(obj[name], {
+        apply: (targetMethod: (...args: unknown[]) => unknown, thisArg, argumentsList) =>
+          runAspects(matchedAspects, name, obj, thisArg, targetMethod, argumentsList),
+      });
     },
   });
 }
+
+/**
+ * @description 将对象转化为AOP执行建议拦截代理对象, 用于实现在不修改源代码的情况下给程序动态统一添加额外功能, 应用主要体现在事务处理、日志管理、权限控制、异常处理等方面;
+ * 传入多个拦截器选项时按order像洋葱一样由外向内嵌套, before按升序执行, after按降序执行, around通过proceed进入内层切面
+ * @attention 目标方法与通知方法都是同步时拦截同步执行, 被拦截的方法保持原有的返回值; 任意一步返回Promise时, 后续步骤异步执行, 被拦截的方法返回Promise实例,
+ * 因此同步方法只应使用同步的通知方法; 未匹配切入点的方法不做拦截; 目标方法的异常在throwing执行后默认重新抛出, before返回false时抛出AdviceRejectedError
+ * @example
+ * const orderService = useAdvice(new OrderService(), [logAspect, authAspect, transactionAspect], pointcut('save*').or('delete*'));
+ */
+export function useAdvice<T extends object>(
+  target: T, // 目标对象实例
+  interceptorOption: InterceptorOption<T> | InterceptorOption<T>[], // 建议拦截器选项, 可传入多个切面
+  targetFunctions?: PointcutExpression | ((...args: unknown[]) => unknown)[], // 建议拦截的切入点表达式或方法清单, 默认全部拦截(除Object实例的方法)
+): T {
+  return adviseWith(target, createAspects(interceptorOption, targetFunctions));
+}
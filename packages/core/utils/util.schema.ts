@@ -1,8 +1,21 @@
+import type { Container, LazyReference } from './provide';
+import type { InjectionToken } from './injection-token';
+
 /**
  * 构造函数类型，用于表示任何可以使用new关键字实例化的类
  * @template T 实例类型
  */
 export type Constructable<T> = new (...args: any) => T;
+/**
+ * 抽象构造函数类型，用于表示抽象类
+ * @template T 实例类型
+ */
+export type AbstractConstructable<T> = abstract new (...args: any) => T;
+/**
+ * 提供者令牌类型，可以是类、抽象类或注入令牌
+ * @template T 令牌对应的实例类型
+ */
+export type ProviderToken<T> = Constructable<T> | AbstractConstructable<T> | InjectionToken<T>;
 /**
  * 项目标识键，用于全局命名空间和缓存键前缀
  */
@@ -23,6 +36,23 @@ export const ProvideScopeKeys = {
   Main: 'main',
 };
 
+/**
+ * 服务生命周期键集合
+ * - Singleton: 单例，同一容器内共享同一个实例
+ * - Transient: 瞬态，每次解析都创建新的实例
+ * - Scoped: 作用域，每个显式创建的作用域容器内共享同一个实例
+ */
+export const ServiceLifetimeKeys = {
+  Singleton: 'singleton',
+  Transient: 'transient',
+  Scoped: 'scoped',
+};
+
+/**
+ * 服务生命周期类型
+ */
+export type ServiceLifetime = 'singleton' | 'transient' | 'scoped';
+
 /**
  * 提供者配置接口
  */
@@ -36,7 +66,193 @@ export interface IProviderConfigure {
    * 自定义命名空间，当provideScope为root时有效
    */
   namespace?: string;
+
+  /**
+   * 显式指定发起解析的IoC容器，优先级高于provideScope与namespace
+   */
+  container?: Container;
+
+  /**
+   * 服务生命周期，默认为singleton；服务已通过Service声明生命周期时以声明为准
+   */
+  lifetime?: ServiceLifetime;
+}
+/**
+ * 注入选项接口
+ */
+export interface IInjectOptions extends IProviderConfigure {
+  /**
+   * 是否延迟注入，为true时在首次访问属性时才查找并解析服务
+   */
+  lazy?: boolean;
+
+  /**
+   * 是否可选注入，为true时找不到已注册的服务会得到undefined而不是抛出错误或隐式创建实例
+   */
+  optional?: boolean;
+
+  /**
+   * 限定名，按Service注册时使用的名称选择要注入的服务，而不是按属性名称或注入类查找
+   */
+  qualifier?: string;
+}
+
+/**
+ * 依赖类型，可以是提供者令牌或延迟引用
+ * @template T 依赖的实例类型
+ */
+export type Dependency<T = any> = ProviderToken<T> | LazyReference<T>;
+
+/**
+ * 提供者定义接口
+ * @description 通过register注册到IoC容器的提供者，useValue、useFactory、useClass、useExisting四选一，均未指定时使用provide本身作为实现类
+ * @template T 提供的实例类型
+ */
+export interface ProviderDefinition<T = any> {
+  /**
+   * 提供者的键（类或注入令牌），解析时使用该键查找提供者
+   */
+  provide: ProviderToken<T>;
+
+  /**
+   * 预先构建好的实例
+   */
+  useValue?: T;
+
+  /**
+   * 工厂函数，接收按deps顺序解析出的依赖实例，返回提供的实例
+   */
+  useFactory?: (...deps: any[]) => T;
+
+  /**
+   * 实现类，解析时实例化该类
+   */
+  useClass?: Constructable<T>;
+
+  /**
+   * 别名，解析时转而解析该键对应的实例
+   */
+  useExisting?: ProviderToken<T>;
+
+  /**
+   * 依赖清单，解析后作为参数传入useFactory或useClass的构造函数
+   */
+  deps?: Dependency[];
+
+  /**
+   * 生命周期，默认为singleton，useValue与useExisting忽略该配置
+   */
+  lifetime?: ServiceLifetime;
+
+  /**
+   * 是否为多提供者，为true时追加为扩展点的一个贡献而不是覆盖已注册的提供者
+   */
+  multi?: boolean;
+
+  /**
+   * 多提供者的排序值，数值小的排在前面，默认为0
+   */
+  order?: number;
 }
+
+/**
+ * 服务配置接口
+ * @description Service装饰器的配置，在提供者配置的基础上支持把服务作为贡献追加到扩展点
+ */
+export interface IServiceOptions extends IProviderConfigure {
+  /**
+   * 服务贡献到的扩展点，可以是一个或多个类或注入令牌
+   */
+  contributeTo?: ProviderToken<any> | ProviderToken<any>[];
+
+  /**
+   * 贡献的排序值，数值小的排在前面，默认为0
+   */
+  order?: number;
+}
+
+/**
+ * 模块配置接口
+ * @description Module装饰器的配置，模块内声明的服务只对导入了该模块并且被导出的部分可见
+ */
+export interface IModuleOptions {
+  /**
+   * 模块内声明的服务，可以是类或提供者定义，首次解析时才创建实例
+   */
+  providers?: (Constructable<any> | ProviderDefinition)[];
+
+  /**
+   * 导入的模块，模块内可以解析导入模块所导出的服务
+   */
+  imports?: Constructable<any>[];
+
+  /**
+   * 导出的服务或导入的模块，导出模块时转而导出该模块导出的全部服务
+   */
+  exports?: ProviderToken<any>[];
+}
+
+/**
+ * 可构造注入的类接口
+ * @description 类通过静态inject属性按构造参数顺序声明依赖，容器首次创建实例时解析这些依赖并传入构造函数
+ * @example
+ * class UserService {
+ *   static inject = [HttpClient, LOGGER];
+ *   constructor(
+ *     private readonly http: HttpClient,
+ *     private readonly logger: ILogger,
+ *   ) {}
+ * }
+ */
+export interface InjectableClass {
+  /**
+   * 构造依赖清单
+   */
+  inject?: Dependency[];
+}
+
+/**
+ * 注入属性名类型
+ * @description 用于在编译期校验被注入属性的类型：公开属性的类型必须能够接收令牌对应的实例类型，非公开属性无法获取类型因此不做校验
+ * @template Target 被修饰属性所在的原型类型
+ * @template K 被修饰的属性名
+ * @template T 令牌对应的实例类型
+ */
+export type InjectedPropertyKey<Target, K, T> = K &
+  (K extends keyof Target ? ([T] extends [Target[K]] ? unknown : never) : unknown);
+
+/**
+ * 注入装饰器类型
+ * @description 同时兼容旧版装饰器与标准装饰器的字段、accessor字段签名，并在编译期校验被注入属性能够接收令牌对应的实例类型
+ * @template T 令牌对应的实例类型
+ */
+export interface InjectDecorator<T> {
+  /**
+   * 旧版装饰器签名
+   */
+  <Target extends object, K extends string>(
+    target: Target,
+    propertyName: InjectedPropertyKey<Target, K, T>,
+    description?: Description,
+  ): void;
+
+  /**
+   * 标准装饰器字段签名
+   */
+  <This, V>(
+    value: undefined,
+    context: ClassFieldDecoratorContext<This, V> & ([T] extends [V] ? unknown : never),
+  ): void;
+
+  /**
+   * 标准装饰器accessor字段签名
+   */
+  <This, V>(
+    value: ClassAccessorDecoratorTarget<This, V>,
+    context: ClassAccessorDecoratorContext<This, V> & ([T] extends [V] ? unknown : never),
+  ): ClassAccessorDecoratorResult<This, V>;
+}
+
 /**
  * 属性描述符接口
  */
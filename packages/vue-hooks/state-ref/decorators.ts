@@ -2,11 +2,22 @@
  * state-ref 装饰器模块
  * @description 提供用于状态管理的装饰器函数，简化异步状态在类中的使用
  * 包含可写异步引用、可读异步引用和可归约异步引用的装饰器实现
+ * 所有装饰器同时支持旧版装饰器(experimentalDecorators)与TC39标准装饰器
  */
 import { isFunction, isObject, isString, isEqual, isPrimitive } from 'radash';
 import { asyncWritableRef, asyncReadableRef, asyncReducableRef } from '.';
 import type { AsyncAutoRef, AsyncReducableRef, AsyncOption } from '.';
-import { customRef, nextTick } from 'vue';
+import { customRef, nextTick, type Ref } from 'vue';
+
+/**
+ * 判断装饰器参数是否为标准装饰器的上下文对象
+ * @description 旧版装饰器的第二个参数为属性名称字符串，标准装饰器的第二个参数为包含kind的上下文对象；
+ * 与@baldwinli/core中的同名方法一致，保留本地实现以兼容尚未提供该方法的core版本
+ * @param value 装饰器的第二个参数
+ */
+function isDecoratorContext(value: unknown): value is DecoratorContext {
+  return typeof value === 'object' && value !== null && isString((value as any).kind);
+}
 
 /**
  * 原始异步目标函数类型
@@ -69,35 +80,33 @@ type Dict<T> = Record<string, T>;
  * @template S 存储类型
  * @template A 函数参数类型数组
  * @param asyncRef 异步引用创建函数（asyncReadableRef、asyncWritableRef或asyncReducableRef）
- * @param obj 配置选项或目标对象
- * @param name 方法名（当直接调用时使用）
+ * @param obj 配置选项或目标对象，标准装饰器直接修饰时为被修饰的方法
+ * @param name 方法名（当直接调用时使用），标准装饰器直接修饰时为方法上下文
  * @returns 返回装饰器函数或直接应用装饰器的结果
  */
 function createDescriptor<T, S, A extends unknown[]>(
   asyncRef: typeof asyncReadableRef | typeof asyncWritableRef | typeof asyncReducableRef | any,
   obj?: AsyncOption<T, A> | TargetInstType<T, Store<T, S>, A> | any,
-  name?: string,
+  name?: string | ClassMethodDecoratorContext,
 ): Discriptor<T, S, A> | ReturnTarget<T, S, A> | unknown {
   // 存储异步引用实例
   let store: Store<T, S>;
   
   /**
-   * 获取目标函数（内部辅助函数）
-   * @description 将原始异步函数转换为返回异步引用的函数
+   * 创建返回异步引用的函数（内部辅助函数）
+   * @param originFunc 原始异步函数
+   * @param option 配置选项
+   * @param bindTarget 原始异步函数绑定的对象，未指定时绑定到首次调用时的实例
    */
-  function getTargetFunc(
-    target: TargetInstType<T, S, A>,
-    funcName: string,
+  function createTargetFunc(
+    originFunc: OriginTarget<T, A>,
     option?: AsyncOption<T, A>,
+    bindTarget?: unknown,
   ): ReturnTarget<T, S, A> {
-    // 获取原始异步函数
-    const originFunc = target[funcName] as OriginTarget<T, A>;
-    
-    // 重写目标函数
-    target[funcName] = function (...arg: A): Store<T, S> {
+    return function (this: unknown, ...arg: A): Store<T, S> {
       // 首次调用时创建store
       if (!store) {
-        store = asyncRef(originFunc.bind(target), {
+        store = asyncRef(originFunc.bind(bindTarget ?? this), {
           ...option,
           creatorArgs: arg,
         });
@@ -108,18 +117,38 @@ function createDescriptor<T, S, A extends unknown[]>(
       // 返回store实例
       return store;
     };
+  }
+  
+  /**
+   * 获取目标函数（内部辅助函数）
+   * @description 将原始异步函数转换为返回异步引用的函数
+   */
+  function getTargetFunc(
+    target: TargetInstType<T, S, A>,
+    funcName: string,
+    option?: AsyncOption<T, A>,
+  ): ReturnTarget<T, S, A> {
+    // 重写目标函数
+    target[funcName] = createTargetFunc(target[funcName] as OriginTarget<T, A>, option, target);
     
     return target[funcName] as ReturnTarget<T, S, A>;
   }
   
-  // 判断是否为直接调用模式（传递了name参数）
-  if (isString(name) && obj && isFunction(obj[name])) {
+  if (isDecoratorContext(name)) {
+    // 标准装饰器直接修饰方法，返回替换后的方法
+    return createTargetFunc(obj as OriginTarget<T, A>);
+  } else if (isString(name) && obj && isFunction(obj[name])) {
     // 直接应用装饰器到指定对象的方法
     return getTargetFunc(obj as TargetInstType<T, S, A>, name);
   } else {
-    // 返回装饰器函数，用于类方法装饰
-    return (target: TargetInstType<T, S, A>, funcName: string) =>
-      getTargetFunc(target, funcName, obj as AsyncOption<T, A>);
+    // 返回装饰器函数，用于类方法装饰，标准装饰器第一个参数为被修饰的方法
+    return (
+      target: TargetInstType<T, S, A> | OriginTarget<T, A>,
+      funcName: string | ClassMethodDecoratorContext,
+    ) =>
+      isDecoratorContext(funcName)
+        ? createTargetFunc(target as OriginTarget<T, A>, obj as AsyncOption<T, A>)
+        : getTargetFunc(target as TargetInstType<T, S, A>, funcName, obj as AsyncOption<T, A>);
   }
 }
 /**
@@ -148,7 +177,7 @@ function createDescriptor<T, S, A extends unknown[]>(
  */
 export function AsyncWritableRefReturn<T, A extends unknown[]>(
   obj?: AsyncOption<T, A> | TargetInstType<T, AsyncAutoRef<T, A>, A> | any,
-  name?: string,
+  name?: string | ClassMethodDecoratorContext,
 ): Discriptor<T, AsyncAutoRef<T, A>, A> | ReturnTarget<T, AsyncAutoRef<T, A>, A> | any {
   return createDescriptor(asyncWritableRef, obj, name);
 }
@@ -179,7 +208,7 @@ export function AsyncWritableRefReturn<T, A extends unknown[]>(
  */
 export function AsyncReadableRefReturn<T, A extends unknown[]>(
   obj?: AsyncOption<T, A> | TargetInstType<T, AsyncAutoRef<T, A>, A> | any,
-  name?: string,
+  name?: string | ClassMethodDecoratorContext,
 ): Discriptor<T, AsyncAutoRef<T, A>, A> | ReturnTarget<T, AsyncAutoRef<T, A>, A> | any {
   return createDescriptor(asyncReadableRef, obj, name);
 }
@@ -215,7 +244,7 @@ export function AsyncReducableRefReturn<T, R, A extends unknown[]>(
     | (AsyncOption<R, A> & { initVal?: R })
     | TargetInstType<T, AsyncReducableRef<T, R, A>, A>
     | any,
-  name?: string,
+  name?: string | ClassMethodDecoratorContext,
 ):
   | Discriptor<T, AsyncReducableRef<T, R, A>, A>
   | ReturnTarget<T, AsyncReducableRef<T, R, A>, A>
@@ -228,7 +257,7 @@ export function AsyncReducableRefReturn<T, R, A extends unknown[]>(
  * @description 类的属性装饰器，将类属性转换为只读的响应式引用
  * @template T 属性值类型
  * @param defaultValue 默认值
- * @param name 属性名（当直接调用时使用）
+ * @param name 属性名（当直接调用时使用），标准装饰器直接修饰时为字段上下文
  * @returns 返回装饰器函数或undefined
  * @example
  * ```typescript
@@ -255,7 +284,7 @@ export function AsyncReducableRefReturn<T, R, A extends unknown[]>(
  */
 export function FieldRef<T>(
   defaultValue: Dict<any> | T,
-  name?: string,
+  name?: string | ClassFieldDecoratorContext,
 ): void | ((target: Dict<any>, propName: string) => void) | any {
   /**
    * 修改属性为响应式引用（内部辅助函数）
@@ -297,60 +326,104 @@ export function FieldRef<T>(
     });
   }
   
-  // 如果提供了name参数并且defaultValue是对象或函数，直接修改指定对象的属性
-  if (name && (isObject(defaultValue) || isFunction(defaultValue))) {
+  /**
+   * 标准装饰器在每个实例的字段初始化完成后将字段改写为响应式引用（内部辅助函数）
+   * @param context 字段上下文
+   * @param defaultVal 默认值，字段未初始化时使用
+   */
+  function modifyField(context: ClassFieldDecoratorContext, defaultVal?: T): void {
+    context.addInitializer(function (this: any) {
+      const initVal = this[context.name];
+      modifyProp(this, String(context.name), initVal === undefined ? defaultVal : initVal);
+    });
+  }
+  
+  if (isDecoratorContext(name)) {
+    // 标准装饰器直接修饰字段
+    modifyField(name);
+  } else if (name && (isObject(defaultValue) || isFunction(defaultValue))) {
+    // 如果提供了name参数并且defaultValue是对象或函数，直接修改指定对象的属性
     modifyProp(defaultValue, name);
   } else {
     // 否则返回装饰器函数用于类属性装饰
-    return function (target: Dict<any>, propName: string) {
-      modifyProp(target, propName, defaultValue as T);
+    return function (target: Dict<any> | undefined, propName: string | ClassFieldDecoratorContext) {
+      if (isDecoratorContext(propName)) {
+        modifyField(propName, defaultValue as T);
+      } else {
+        modifyProp(target as Dict<any>, propName, defaultValue as T);
+      }
     };
   }
 }
+/**
+ * 创建跟随get方法返回值变化的只读引用（内部辅助函数）
+ * @param originGet 原始get方法
+ * @returns 绑定实例并返回只读引用的函数
+ */
+function createAccessorRef<T>(originGet: () => T): (ins: unknown) => Ref<T> {
+  let ins: unknown;
+  let value: T;
+  const getRef = customRef((track, trigger) => {
+    return {
+      set: () => void 0,
+      get() {
+        if (ins) {
+          const currentVal = originGet.call(ins);
+          if ((isPrimitive(currentVal) && value !== currentVal) || !isEqual(value, currentVal)) {
+            trigger();
+            value = isPrimitive(currentVal) ? currentVal : JSON.parse(JSON.stringify(currentVal));
+          }
+          track();
+          return currentVal;
+        }
+      },
+    };
+  });
+  // 轮询get方法的返回值以便在变化时触发变更
+  nextTick(() => setInterval(() => getRef.value, 100));
+  return (obj) => {
+    ins = obj;
+    return getRef as Ref<T>;
+  };
+}
+
 /**
  * @description 类的set或get方法修饰器, get属性只读, 使其改写为返回一个只读的Ref的方法, 该Ref会在原get方法返回值变化时触发变更
- * @attention !注意: 只能修饰声明过get方法的set或get方法, 可以是实例的get或set方法, 也可以是静态get或set方法
+ * @attention !注意: 只能修饰声明过get方法的set或get方法, 可以是实例的get或set方法, 也可以是静态get或set方法; 标准装饰器只能修饰get方法
  */
 export function AccessorRef<T>(
   target: Dict<any>,
   name: string,
   descriptor: TypedPropertyDescriptor<T>,
-): void {
-  if (isFunction(descriptor?.get)) {
-    const originGet = descriptor.get as () => T;
-    let ins: unknown;
-    let value: T;
-    const getRef = customRef((track, trigger) => {
-      return {
-        set: () => void 0,
-        get() {
-          if (ins) {
-            const currentVal = originGet.call(ins);
-            if ((isPrimitive(currentVal) && value !== currentVal) || !isEqual(value, currentVal)) {
-              trigger();
-              value = isPrimitive(currentVal) ? currentVal : JSON.parse(JSON.stringify(currentVal));
-            }
-            track();
-            return currentVal;
-          }
-        },
-      };
-    });
-    descriptor.get = new Proxy(
-      function () {
-        return getRef;
-      },
-      {
-        apply(method, obj) {
-          ins = obj;
-          return method();
-        },
-      },
-    ) as () => T;
+): void;
+export function AccessorRef<T>(
+  target: () => T,
+  name: ClassGetterDecoratorContext | ClassSetterDecoratorContext,
+): (this: unknown) => Ref<T>;
+export function AccessorRef<T>(
+  target: Dict<any> | (() => T),
+  name: string | ClassGetterDecoratorContext | ClassSetterDecoratorContext,
+  descriptor?: TypedPropertyDescriptor<T>,
+): void | ((this: unknown) => Ref<T>) {
+  if (isDecoratorContext(name)) {
+    // 标准装饰器以被修饰的get方法作为第一个参数，返回替换后的get方法
+    if (name.kind !== 'getter') {
+      throw new Error(
+        `@AccessorRef decorator must decorate a get-function when using standard decorators, "${String(name.name)}" is not a get-function.`,
+      );
+    }
+    const bindRef = createAccessorRef(target as () => T);
+    return function (this: unknown) {
+      return bindRef(this);
+    };
+  } else if (descriptor && isFunction(descriptor.get)) {
+    const bindRef = createAccessorRef(descriptor.get as () => T);
+    descriptor.get = function (this: unknown) {
+      return bindRef(this);
+    } as () => T;
     nextTick(() => {
       Object.defineProperty(target, name, descriptor);
       Object.defineProperty(descriptor, 'initializer', descriptor);
-      setInterval(() => getRef.value, 100);
     });
   } else {
     throw new Error(